@@ -1,14 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import Index from '@/pages/Index';
 import Dashboard from '@/pages/Dashboard';
 import History from '@/pages/History';
+import Trash from '@/pages/Trash';
+import Import from '@/pages/Import';
+import Collections from '@/pages/Collections';
+import CollectionDetail from '@/pages/CollectionDetail';
+import ImageDetail from '@/pages/ImageDetail';
+import ImageEditor from '@/pages/ImageEditor';
 import NotFound from '@/pages/NotFound';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { ImageProvider } from '@/contexts/ImageContext';
 import { Toaster } from '@/components/ui/sonner';
 import Profile from '@/pages/Profile';
 
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Refetch in the background once data is a minute old
+      staleTime: 60 * 1000,
+      refetchOnWindowFocus: true,
+    },
+  },
+});
+
 function App() {
   const [loading, setLoading] = useState(true);
 
@@ -20,20 +37,28 @@ function App() {
   }, []);
 
   return (
-    <BrowserRouter>
-      <AuthProvider>
-        <ImageProvider>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/history" element={<History />} />
-            <Route path="/profile" element={<Profile />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-          <Toaster />
-        </ImageProvider>
-      </AuthProvider>
-    </BrowserRouter>
+    <QueryClientProvider client={queryClient}>
+      <BrowserRouter>
+        <AuthProvider>
+          <ImageProvider>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/history" element={<History />} />
+              <Route path="/history/trash" element={<Trash />} />
+              <Route path="/history/import" element={<Import />} />
+              <Route path="/collections" element={<Collections />} />
+              <Route path="/collections/:collectionId" element={<CollectionDetail />} />
+              <Route path="/image/:imageId" element={<ImageDetail />} />
+              <Route path="/image/:imageId/edit" element={<ImageEditor />} />
+              <Route path="/profile" element={<Profile />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+            <Toaster />
+          </ImageProvider>
+        </AuthProvider>
+      </BrowserRouter>
+    </QueryClientProvider>
   );
 }
 
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { FolderPlus, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  useAddToCollection,
+  useCollectionMemberships,
+  useCollections,
+  useCreateCollection,
+  useRemoveFromCollection,
+} from '@/hooks/use-collections';
+
+interface AddToCollectionDialogProps {
+  imageIds: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AddToCollectionDialog: React.FC<AddToCollectionDialogProps> = ({ imageIds, open, onOpenChange }) => {
+  const [newName, setNewName] = useState('');
+  const { data: collections, isLoading } = useCollections();
+  const { data: memberships } = useCollectionMemberships(imageIds, open);
+  const addToCollection = useAddToCollection();
+  const removeFromCollection = useRemoveFromCollection();
+  const createCollection = useCreateCollection();
+  const isSaving = addToCollection.isPending || removeFromCollection.isPending || createCollection.isPending;
+  const imageLabel = imageIds.length === 1 ? 'this image' : `${imageIds.length} images`;
+
+  // Checked once every image is in the collection, toggling fills or empties it
+  const handleToggle = (collectionId: string, name: string) => {
+    const isMember = memberships?.get(collectionId) === imageIds.length;
+    if (isMember) {
+      removeFromCollection.mutate(
+        { collectionId, imageIds },
+        { onSuccess: () => toast.success(`Removed from ${name}.`) }
+      );
+    } else {
+      addToCollection.mutate(
+        { collectionId, imageIds },
+        { onSuccess: () => toast.success(`Added to ${name}.`) }
+      );
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    createCollection.mutate({ name }, {
+      onSuccess: (collection) => {
+        setNewName('');
+        addToCollection.mutate(
+          { collectionId: collection.id, imageIds },
+          { onSuccess: () => toast.success(`Added to ${collection.name}.`) }
+        );
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to collection</DialogTitle>
+          <DialogDescription>Choose the collections {imageLabel} should be in.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="animate-spin text-imaginate-purple" size={24} />
+          </div>
+        ) : collections && collections.length > 0 ? (
+          <ScrollArea className="max-h-64">
+            <div className="space-y-1 pr-3">
+              {collections.map(collection => (
+                <label
+                  key={collection.id}
+                  className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-gray-50 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={memberships?.get(collection.id) === imageIds.length}
+                    onCheckedChange={() => handleToggle(collection.id, collection.name)}
+                    disabled={isSaving}
+                  />
+                  <span className="flex-grow text-sm truncate">{collection.name}</span>
+                  <span className="text-xs text-gray-500">{collection.imageCount}</span>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <p className="text-sm text-gray-500 py-2">You don't have any collections yet.</p>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection name"
+            maxLength={100}
+            aria-label="New collection name"
+          />
+          <Button type="submit" disabled={!newName.trim() || isSaving}>
+            <FolderPlus size={16} className="mr-2" />
+            Create
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddToCollectionDialog;
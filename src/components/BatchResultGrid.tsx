@@ -0,0 +1,48 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { GeneratedImage } from '@/types/database';
+import { cn } from '@/lib/utils';
+
+interface BatchResultGridProps {
+  images: GeneratedImage[];
+  selectedId: string | null;
+  onSelect: (image: GeneratedImage) => void;
+}
+
+// Variations from one batch, click one to pick it
+const BatchResultGrid: React.FC<BatchResultGridProps> = ({ images, selectedId, onSelect }) => {
+  return (
+    <div className="grid grid-cols-2 gap-2 p-2">
+      {images.map((image, index) => {
+        const isSelected = image.id === selectedId;
+        return (
+          <button
+            key={image.id}
+            type="button"
+            onClick={() => onSelect(image)}
+            className={cn(
+              'relative aspect-square overflow-hidden rounded-md ring-offset-2 transition-all focus:outline-none',
+              isSelected ? 'ring-2 ring-imaginate-purple' : 'hover:opacity-90'
+            )}
+            aria-pressed={isSelected}
+            aria-label={`Variation ${index + 1}`}
+          >
+            <img
+              src={image.imageUrl}
+              alt={`${image.prompt} (variation ${index + 1})`}
+              className="w-full h-full object-cover bg-gray-100"
+              crossOrigin="anonymous"
+            />
+            {isSelected && (
+              <span className="absolute top-2 right-2 bg-imaginate-purple text-white rounded-full p-1">
+                <Check size={14} />
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BatchResultGrid;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  AlertTriangle,
+  Download,
+  Eye,
+  EyeOff,
+  FolderPlus,
+  Loader2,
+  Tags,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import AddToCollectionDialog from '@/components/AddToCollectionDialog';
+import { GeneratedImage } from '@/types/database';
+import { useDeleteImages, useSetImagesPrivacy } from '@/hooks/use-images';
+import { useAddTags } from '@/hooks/use-tags';
+import { useUsage } from '@/hooks/use-usage';
+import { downloadImageArchive } from '@/lib/archive';
+import { TRASH_RETENTION_DAYS } from '@/lib/storage';
+import { normalizeTag } from '@/lib/tags';
+
+interface BulkActionBarProps {
+  selectedImages: GeneratedImage[];
+  // Loaded images that could be selected, for "Select all"
+  selectableCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+// Sticks to the bottom of the viewport while images are selected
+const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedImages, selectableCount, onSelectAll, onClear }) => {
+  const [collectionDialogOpen, setCollectionDialogOpen] = useState(false);
+  const [tagDialogOpen, setTagDialogOpen] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [isDownloading, setIsDownloading] = useState(false);
+  const deleteImages = useDeleteImages();
+  const setImagesPrivacy = useSetImagesPrivacy();
+  const addTags = useAddTags();
+  const { tier } = useUsage();
+  const imageIds = selectedImages.map(image => image.id);
+  const count = selectedImages.length;
+  const countLabel = count === 1 ? '1 image' : `${count} images`;
+
+  if (count === 0) return null;
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const { added, failed } = await downloadImageArchive(selectedImages, `imaginate-${countLabel}`);
+      if (failed.length === 0) {
+        toast.success(`Downloaded ${added === 1 ? '1 image' : `${added} images`}`);
+      } else {
+        toast.warning(`Downloaded ${added} of ${count} images, some could not be fetched`);
+      }
+    } catch (error) {
+      console.error('Error downloading images:', error);
+      toast.error('Failed to download images');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleTagSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tags = tagInput.split(',').map(normalizeTag).filter((tag): tag is string => !!tag);
+    if (tags.length === 0) return;
+
+    addTags.mutate({ imageIds, tags }, {
+      onSuccess: () => toast.success(`Tagged ${countLabel}.`),
+    });
+    setTagInput('');
+    setTagDialogOpen(false);
+  };
+
+  return (
+    <div className="sticky bottom-4 z-20 mt-6">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-white px-4 py-3 shadow-lg">
+        <span className="text-sm font-medium mr-1">{countLabel} selected</span>
+        {count < selectableCount && (
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAll}>
+            Select all {selectableCount}
+          </Button>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => setCollectionDialogOpen(true)}>
+            <FolderPlus size={14} className="mr-2" />
+            Add to collection
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setTagDialogOpen(true)}>
+            <Tags size={14} className="mr-2" />
+            Tag
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={setImagesPrivacy.isPending}>
+                <Eye size={14} className="mr-2" />
+                Visibility
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onSelect={() => setImagesPrivacy.mutate({ imageIds, isPrivate: true })}
+                disabled={tier.maxPrivateImages === 0}
+              >
+                <EyeOff size={14} className="mr-2" />
+                {tier.maxPrivateImages === 0 ? `Make private (not on ${tier.name})` : 'Make private'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setImagesPrivacy.mutate({ imageIds, isPrivate: false })}>
+                <Eye size={14} className="mr-2" />
+                Make public
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={isDownloading}>
+            {isDownloading ? (
+              <Loader2 size={14} className="mr-2 animate-spin" />
+            ) : (
+              <Download size={14} className="mr-2" />
+            )}
+            Download
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-red-500 border-red-200 hover:bg-red-50">
+                <Trash2 size={14} className="mr-2" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle className="flex items-center">
+                  <AlertTriangle className="text-red-500 mr-2" size={20} />
+                  Delete {countLabel}?
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  The selected images will be moved to the trash. You can restore them from there for the next {TRASH_RETENTION_DAYS} days.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => deleteImages.mutate(imageIds, { onSuccess: onClear })}
+                  className="bg-red-500 hover:bg-red-600"
+                >
+                  Move to Trash
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <Button variant="ghost" size="sm" onClick={onClear} aria-label="Clear selection">
+            <X size={14} />
+          </Button>
+        </div>
+      </div>
+
+      <AddToCollectionDialog
+        imageIds={imageIds}
+        open={collectionDialogOpen}
+        onOpenChange={setCollectionDialogOpen}
+      />
+
+      <Dialog open={tagDialogOpen} onOpenChange={setTagDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleTagSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Tag {countLabel}</DialogTitle>
+              <DialogDescription>The tags are added to every selected image.</DialogDescription>
+            </DialogHeader>
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Tags, separated by commas"
+              aria-label="Tags"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setTagDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!tagInput.trim()}>
+                Add Tags
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+export type CollectionFormValues = { name: string; description: string };
+
+interface CollectionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  submitLabel: string;
+  initialValues?: CollectionFormValues;
+  isSaving?: boolean;
+  onSubmit: (values: CollectionFormValues) => void;
+}
+
+const EMPTY_VALUES: CollectionFormValues = { name: '', description: '' };
+
+// Lives inside the dialog content, which unmounts on close, so every open
+// starts from the initial values
+const CollectionForm: React.FC<Omit<CollectionFormDialogProps, 'open'>> = ({
+  onOpenChange,
+  title,
+  submitLabel,
+  initialValues = EMPTY_VALUES,
+  isSaving = false,
+  onSubmit,
+}) => {
+  const [values, setValues] = useState(initialValues);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values.name.trim()) return;
+    onSubmit(values);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="collection-name">Name</Label>
+        <Input
+          id="collection-name"
+          value={values.name}
+          onChange={(e) => setValues({ ...values, name: e.target.value })}
+          maxLength={100}
+          autoFocus
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="collection-description">Description</Label>
+        <Textarea
+          id="collection-description"
+          value={values.description}
+          onChange={(e) => setValues({ ...values, description: e.target.value })}
+          placeholder="Optional"
+          rows={3}
+        />
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!values.name.trim() || isSaving}>
+          {submitLabel}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+// Name and description of a new or existing collection
+const CollectionFormDialog: React.FC<CollectionFormDialogProps> = ({ open, ...formProps }) => (
+  <Dialog open={open} onOpenChange={formProps.onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      <CollectionForm {...formProps} />
+    </DialogContent>
+  </Dialog>
+);
+
+export default CollectionFormDialog;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ComparisonSliderProps {
+  before: string;
+  after: string;
+  alt: string;
+  className?: string;
+}
+
+// The two images stacked, with the "before" one revealed up to the handle
+const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ before, after, alt, className }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={cn('relative overflow-hidden rounded-lg bg-gray-100 select-none', className)}>
+      <img src={after} alt={`${alt} (after)`} className="block w-full h-auto" draggable={false} />
+      <img
+        src={before}
+        alt={`${alt} (before)`}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div
+        className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none"
+        style={{ left: `${position}%` }}
+      />
+      <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white pointer-events-none">
+        Before
+      </span>
+      <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white pointer-events-none">
+        After
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={0.5}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label="Compare before and after"
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+      />
+    </div>
+  );
+};
+
+export default ComparisonSlider;
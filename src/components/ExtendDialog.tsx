@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Expand, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImage } from '@/contexts/ImageContext';
+import { GeneratedImage, isUnsavedImage } from '@/types/database';
+import { ASPECT_RATIO_PRESETS, MAX_STRENGTH, imageGenerationSettings } from '@/lib/generation';
+import {
+  EXTEND_DIRECTIONS,
+  ExtendDirection,
+  buildExtendedImage,
+  extendAxis,
+  extendLayout,
+} from '@/lib/extend';
+import { getActiveProvider } from '@/lib/providers';
+import { resolveTier } from '@/lib/tiers';
+import { fetchImageBlob } from '@/lib/download';
+
+interface ExtendDialogProps {
+  image: GeneratedImage;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Size = { width: number; height: number };
+
+// Kept in its own component so the options and result are reset each time the dialog opens
+const ExtendEditor: React.FC<{ image: GeneratedImage; onDone: () => void }> = ({ image, onDone }) => {
+  const { generateImage, isGenerating } = useImage();
+  const { user } = useAuth();
+  const provider = getActiveProvider();
+  // Older rows may not have their size recorded, then it's read from the file
+  const [size, setSize] = useState<Size | null>(
+    image.width && image.height ? { width: image.width, height: image.height } : null
+  );
+  const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [direction, setDirection] = useState<ExtendDirection>('both');
+  const [prompt, setPrompt] = useState(image.prompt);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [result, setResult] = useState<GeneratedImage | null>(null);
+  const isBusy = isPreparing || isGenerating;
+
+  useEffect(() => {
+    if (size) return;
+    const img = new Image();
+    img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = image.imageUrl;
+  }, [size, image.imageUrl]);
+
+  const maxDimension = Math.min(
+    resolveTier(user?.subscriptionTier).maxResolution,
+    provider.capabilities.maxWidth,
+    provider.capabilities.maxHeight
+  );
+  const preset = ASPECT_RATIO_PRESETS.find(item => item.id === aspectRatio);
+  const axis = size && preset ? extendAxis(size.width, size.height, preset) : null;
+  const layout = size && preset ? extendLayout(size.width, size.height, preset, direction, maxDimension) : null;
+
+  const handleAspectRatioChange = (value: string) => {
+    setAspectRatio(value);
+    const next = ASPECT_RATIO_PRESETS.find(item => item.id === value);
+    // Directions along the other axis don't apply any more
+    if (size && next && extendAxis(size.width, size.height, next) !== axis) {
+      setDirection('both');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!layout || !prompt.trim()) return;
+
+    setIsPreparing(true);
+    let extended: { image: Blob; mask: Blob };
+    try {
+      extended = await buildExtendedImage(await fetchImageBlob(image.imageUrl), layout);
+    } catch (error) {
+      console.error('Error preparing image for extending:', error);
+      toast.error('Failed to load the image.');
+      return;
+    } finally {
+      setIsPreparing(false);
+    }
+
+    // The new area is filled in completely, the original is kept as it is
+    const [newImage] = await generateImage(
+      prompt,
+      {
+        ...imageGenerationSettings(image),
+        aspectRatio,
+        width: layout.width,
+        height: layout.height,
+        strength: MAX_STRENGTH,
+      },
+      {
+        parentImageId: isUnsavedImage(image) ? null : image.id,
+        sourceImage: extended.image,
+        maskImage: extended.mask,
+      }
+    );
+    if (newImage) {
+      setResult(newImage);
+    }
+  };
+
+  if (!provider.capabilities.inpainting) {
+    return (
+      <p className="text-sm text-gray-500 py-4">
+        The current image provider can't fill in around an image.
+      </p>
+    );
+  }
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <img
+          src={result.imageUrl}
+          alt={result.prompt}
+          className="mx-auto block max-h-[60vh] max-w-full rounded-lg bg-gray-100"
+        />
+        <p className="text-sm text-gray-500 text-center">
+          {result.width}×{result.height}
+        </p>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => setResult(null)}>
+            <RotateCcw size={14} className="mr-2" />
+            Try other options
+          </Button>
+          {!isUnsavedImage(result) && (
+            <Button type="button" variant="outline" asChild>
+              <Link to={`/image/${result.id}`} onClick={onDone}>Open new version</Link>
+            </Button>
+          )}
+          <Button type="button" onClick={onDone}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* The extended canvas, with the original where it will be placed */}
+      <div className="flex justify-center">
+        {layout ? (
+          <div
+            className="relative overflow-hidden rounded-lg bg-gray-100 bg-[repeating-conic-gradient(#e5e7eb_0%_25%,#f9fafb_0%_50%)] bg-[length:16px_16px]"
+            style={{
+              aspectRatio: `${layout.width} / ${layout.height}`,
+              width: `min(100%, calc(50vh * ${layout.width / layout.height}))`,
+            }}
+          >
+            <img
+              src={image.imageUrl}
+              alt={image.prompt}
+              className="absolute"
+              style={{
+                left: `${(layout.x / layout.width) * 100}%`,
+                top: `${(layout.y / layout.height) * 100}%`,
+                width: `${(layout.imageWidth / layout.width) * 100}%`,
+                height: `${(layout.imageHeight / layout.height) * 100}%`,
+              }}
+              draggable={false}
+            />
+          </div>
+        ) : (
+          <img
+            src={image.imageUrl}
+            alt={image.prompt}
+            className="block max-h-[50vh] max-w-full rounded-lg bg-gray-100"
+          />
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="extend-aspect-ratio">Aspect ratio</Label>
+          <Select value={aspectRatio} onValueChange={handleAspectRatioChange} disabled={isBusy}>
+            <SelectTrigger id="extend-aspect-ratio">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASPECT_RATIO_PRESETS.map(item => (
+                <SelectItem
+                  key={item.id}
+                  value={item.id}
+                  disabled={!size || !extendAxis(size.width, size.height, item)}
+                >
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {size && (
+            <p className="text-xs text-gray-500">
+              {layout
+                ? `${size.width}×${size.height} becomes ${layout.width}×${layout.height}`
+                : 'The image already has this aspect ratio'}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Extend</Label>
+          <ToggleGroup
+            type="single"
+            value={direction}
+            onValueChange={(value) => value && setDirection(value as ExtendDirection)}
+            className="justify-start"
+            disabled={!axis || isBusy}
+          >
+            {EXTEND_DIRECTIONS[axis ?? 'horizontal'].map(item => (
+              <ToggleGroupItem key={item.id} value={item.id} size="sm">
+                {item.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="Describe the whole scene"
+          aria-label="Prompt for the new area"
+          className="flex-1"
+          disabled={isBusy}
+        />
+        <Button type="submit" disabled={isBusy || !layout || !prompt.trim()}>
+          {isBusy ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Expand className="mr-2 h-4 w-4" />
+          )}
+          Extend
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+// Place an image on a larger canvas with another aspect ratio and have the
+// provider fill in the rest. The result is saved as a new version of the image.
+const ExtendDialog: React.FC<ExtendDialogProps> = ({ image, open, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-3xl">
+      <DialogHeader>
+        <DialogTitle>Extend</DialogTitle>
+        <DialogDescription>Choose the new aspect ratio and which way to grow the image.</DialogDescription>
+      </DialogHeader>
+      <ExtendEditor image={image} onDone={() => onOpenChange(false)} />
+    </DialogContent>
+  </Dialog>
+);
+
+export default ExtendDialog;
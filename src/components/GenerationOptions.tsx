@@ -0,0 +1,267 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices, Lock, SlidersHorizontal } from 'lucide-react';
+import UpgradeHint from '@/components/UpgradeHint';
+import {
+  ASPECT_RATIO_PRESETS,
+  CUSTOM_ASPECT_RATIO,
+  GenerationSettings,
+  MAX_GUIDANCE,
+  MAX_SEED,
+  MAX_STEPS,
+  MIN_DIMENSION,
+  MIN_GUIDANCE,
+  MIN_STEPS,
+  clampDimension,
+  findAspectRatioPreset,
+  randomSeed,
+} from '@/lib/generation';
+import { TierLimits } from '@/lib/tiers';
+
+interface GenerationOptionsProps {
+  value: GenerationSettings;
+  onChange: (value: GenerationSettings) => void;
+  disabled?: boolean;
+  // Plan limits; options beyond them are disabled with an upgrade hint
+  tier: TierLimits;
+  // Privacy only applies to images saved to an account
+  showPrivacy?: boolean;
+}
+
+const GenerationOptions: React.FC<GenerationOptionsProps> = ({
+  value,
+  onChange,
+  disabled = false,
+  tier,
+  showPrivacy = false,
+}) => {
+  const maxDimension = tier.maxResolution;
+  const canMakePrivate = tier.maxPrivateImages !== 0;
+
+  const update = (changes: Partial<GenerationSettings>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const handleAspectRatioChange = (aspectRatio: string) => {
+    const preset = ASPECT_RATIO_PRESETS.find(item => item.id === aspectRatio);
+    if (preset) {
+      update({ aspectRatio, width: preset.width, height: preset.height });
+    } else {
+      update({ aspectRatio });
+    }
+  };
+
+  // Editing a dimension by hand switches to a custom ratio unless it matches a preset
+  const handleDimensionChange = (dimension: 'width' | 'height', rawValue: string) => {
+    const parsed = parseInt(rawValue, 10);
+    if (Number.isNaN(parsed)) return;
+
+    const next = { ...value, [dimension]: parsed };
+    const preset = findAspectRatioPreset(next.width, next.height);
+    onChange({ ...next, aspectRatio: preset ? preset.id : CUSTOM_ASPECT_RATIO });
+  };
+
+  const handleDimensionBlur = (dimension: 'width' | 'height') => {
+    update({ [dimension]: clampDimension(value[dimension], maxDimension) });
+  };
+
+  const handleSeedChange = (rawValue: string) => {
+    if (!rawValue.trim()) {
+      update({ seed: null });
+      return;
+    }
+    const parsed = parseInt(rawValue, 10);
+    if (!Number.isNaN(parsed)) {
+      update({ seed: Math.min(Math.max(parsed, 0), MAX_SEED) });
+    }
+  };
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="advanced" className="border-b-0">
+        <AccordionTrigger className="text-sm text-imaginate-gray hover:no-underline py-2">
+          <span className="flex items-center">
+            <SlidersHorizontal size={16} className="mr-2" />
+            Advanced options
+          </span>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="grid gap-4 sm:grid-cols-2 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="aspect-ratio">Aspect ratio</Label>
+              <Select
+                value={value.aspectRatio}
+                onValueChange={handleAspectRatioChange}
+                disabled={disabled}
+              >
+                <SelectTrigger id="aspect-ratio">
+                  <SelectValue placeholder="Select aspect ratio" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASPECT_RATIO_PRESETS.map(preset => (
+                    <SelectItem
+                      key={preset.id}
+                      value={preset.id}
+                      disabled={Math.max(preset.width, preset.height) > maxDimension}
+                    >
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_ASPECT_RATIO}>Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Dimensions</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  aria-label="Width"
+                  min={MIN_DIMENSION}
+                  max={maxDimension}
+                  step={8}
+                  value={value.width}
+                  onChange={(e) => handleDimensionChange('width', e.target.value)}
+                  onBlur={() => handleDimensionBlur('width')}
+                  disabled={disabled}
+                />
+                <span className="text-gray-400">×</span>
+                <Input
+                  type="number"
+                  aria-label="Height"
+                  min={MIN_DIMENSION}
+                  max={maxDimension}
+                  step={8}
+                  value={value.height}
+                  onChange={(e) => handleDimensionChange('height', e.target.value)}
+                  onBlur={() => handleDimensionBlur('height')}
+                  disabled={disabled}
+                />
+              </div>
+              <p className="text-xs text-gray-500">Up to {maxDimension}px per side on {tier.name}</p>
+              <UpgradeHint
+                isAllowed={limits => limits.maxResolution > maxDimension}
+                message={limits => `${limits.name} goes up to ${limits.maxResolution}px`}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="seed">Seed</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="seed"
+                  type="number"
+                  min={0}
+                  max={MAX_SEED}
+                  value={value.seed ?? ''}
+                  onChange={(e) => handleSeedChange(e.target.value)}
+                  placeholder="Random"
+                  disabled={disabled}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  title="Pick a random seed"
+                  onClick={() => update({ seed: randomSeed() })}
+                  disabled={disabled}
+                >
+                  <Dices size={16} />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">Leave blank for a new random seed each time</p>
+            </div>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Steps</Label>
+                  <span className="text-sm text-gray-500">{value.steps}</span>
+                </div>
+                <Slider
+                  min={MIN_STEPS}
+                  max={MAX_STEPS}
+                  step={1}
+                  value={[value.steps]}
+                  onValueChange={([steps]) => update({ steps })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label>Guidance scale</Label>
+                  <span className="text-sm text-gray-500">{value.guidanceScale.toFixed(1)}</span>
+                </div>
+                <Slider
+                  min={MIN_GUIDANCE}
+                  max={MAX_GUIDANCE}
+                  step={0.5}
+                  value={[value.guidanceScale]}
+                  onValueChange={([guidanceScale]) => update({ guidanceScale })}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="negative-prompt">Negative prompt</Label>
+              <Textarea
+                id="negative-prompt"
+                value={value.negativePrompt}
+                onChange={(e) => update({ negativePrompt: e.target.value })}
+                placeholder="Things to avoid, e.g. blurry, text, watermark"
+                rows={2}
+                disabled={disabled}
+              />
+            </div>
+
+            {showPrivacy && (
+              <div className="space-y-1 sm:col-span-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="private-image" className="flex items-center">
+                    <Lock size={14} className="mr-2" />
+                    Private image
+                  </Label>
+                  <Switch
+                    id="private-image"
+                    checked={value.isPrivate && canMakePrivate}
+                    onCheckedChange={(isPrivate) => update({ isPrivate })}
+                    disabled={disabled || !canMakePrivate}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">Private images can't be shared with others</p>
+                {!canMakePrivate && (
+                  <UpgradeHint
+                    isAllowed={limits => limits.maxPrivateImages !== 0}
+                    message={limits => `Private images are available on ${limits.name}`}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default GenerationOptions;
@@ -2,24 +2,101 @@
 import React, { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, ImageIcon, RefreshCw } from 'lucide-react';
-import { GeneratedImage } from '@/types/database';
+import {
+  Brush,
+  Download,
+  Expand,
+  ExternalLink,
+  FolderPlus,
+  ImageIcon,
+  Maximize2,
+  MoreVertical,
+  RefreshCw,
+  Shuffle,
+  SlidersHorizontal,
+  Star,
+  Tags,
+  Trash2,
+} from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { GeneratedImage, isUnsavedImage } from '@/types/database';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import { useImage } from '@/contexts/ImageContext';
+import { useDeleteImage } from '@/hooks/use-images';
 import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
+import ImageParameters from '@/components/ImageParameters';
+import { downloadImage } from '@/lib/download';
+import { MAX_UPSCALE_DIMENSION, UPSCALE_FACTORS } from '@/lib/generation';
+import { creditCostForImage, formatCredits } from '@/lib/credits';
+import AddToCollectionDialog from '@/components/AddToCollectionDialog';
+import TagEditorDialog from '@/components/TagEditorDialog';
+import InpaintDialog from '@/components/InpaintDialog';
+import ExtendDialog from '@/components/ExtendDialog';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+
+const MAX_VISIBLE_TAGS = 4;
 
 interface ImageCardProps {
   image: GeneratedImage;
+  // Extra actions for the card's menu, shown above "Move to trash"
+  menuItems?: React.ReactNode;
+  // Bulk selection, the checkbox is only there when onSelect is given. It shows
+  // on hover, or all the time once anything is selected.
+  selected?: boolean;
+  selectionActive?: boolean;
+  onSelect?: (event: React.MouseEvent) => void;
+  // Opens the image larger, e.g. in a lightbox
+  onOpen?: () => void;
 }
 
-const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
+const ImageCard: React.FC<ImageCardProps> = ({
+  image,
+  menuItems,
+  selected = false,
+  selectionActive = false,
+  onSelect,
+  onOpen,
+}) => {
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const [imageUrl, setImageUrl] = useState(image.imageUrl);
+  // Grids show the thumbnail when there is one, downloads always use the full image
+  const displayUrl = image.thumbnailUrl ?? image.imageUrl;
+  const [imageUrl, setImageUrl] = useState(displayUrl);
   const { isAuthenticated } = useAuth();
+  const { toggleFavorite, regenerateImage, upscaleImage, isGenerating } = useImage();
+  const navigate = useNavigate();
+  const deleteImage = useDeleteImage();
   const [retryCount, setRetryCount] = useState(0);
   const [isImageLoading, setIsImageLoading] = useState(true);
+  const [collectionDialogOpen, setCollectionDialogOpen] = useState(false);
+  const [tagDialogOpen, setTagDialogOpen] = useState(false);
+  const [inpaintDialogOpen, setInpaintDialogOpen] = useState(false);
+  const [extendDialogOpen, setExtendDialogOpen] = useState(false);
+
+  // Signed URLs are re-signed on refetch and files move when the image's
+  // privacy changes, so start over whenever the image's URL does
+  useEffect(() => {
+    setImageUrl(displayUrl);
+    setRetryCount(0);
+    setImageError(false);
+  }, [displayUrl]);
+
+  // Cache busting keeps the query string, signed URLs need their token
+  const cacheBustedUrl = (param: string) =>
+    `${displayUrl}${displayUrl.includes('?') ? '&' : '?'}${param}=${Date.now()}`;
 
   useEffect(() => {
     // Preload the image
@@ -73,20 +150,8 @@ const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
 
   const handleDownload = async () => {
     try {
-      // Add cache-busting parameter
-      const downloadUrl = imageUrl.includes('?') 
-        ? `${imageUrl}&t=${Date.now()}` 
-        : `${imageUrl}?t=${Date.now()}`;
-      
-      const response = await fetch(downloadUrl);
-      const blob = await response.blob();
-      
-      const downloadLink = document.createElement('a');
-      downloadLink.href = URL.createObjectURL(blob);
-      downloadLink.download = `imaginate-${image.id}.jpg`;
-      document.body.appendChild(downloadLink);
-      downloadLink.click();
-      document.body.removeChild(downloadLink);
+      // The displayed URL may have been re-signed, unless it's the thumbnail's
+      await downloadImage(image, image.thumbnailPath ? image.imageUrl : imageUrl);
       
       toast.success('Image downloaded successfully');
     } catch (error) {
@@ -108,9 +173,7 @@ const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
     // Try to reload with cache busting if we haven't tried too many times
     if (retryCount < 2) {
       setRetryCount(prev => prev + 1);
-      const newUrl = imageUrl.includes('?') 
-        ? `${imageUrl}&retry=${Date.now()}` 
-        : `${imageUrl}?retry=${Date.now()}`;
+      const newUrl = cacheBustedUrl('retry');
       console.log("Retrying with new URL:", newUrl);
       setImageUrl(newUrl);
     } else {
@@ -127,16 +190,14 @@ const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
     setIsImageLoading(true);
     
     // Create a new URL with cache busting
-    const refreshedUrl = imageUrl.includes('?') 
-      ? imageUrl.split('?')[0] + `?refresh=${Date.now()}` 
-      : `${imageUrl}?refresh=${Date.now()}`;
+    const refreshedUrl = cacheBustedUrl('refresh');
     
     console.log("Manually retrying with URL:", refreshedUrl);
     setImageUrl(refreshedUrl);
   };
 
   return (
-    <Card className="overflow-hidden h-full flex flex-col">
+    <Card className={`overflow-hidden h-full flex flex-col ${selected ? 'ring-2 ring-imaginate-purple' : ''}`}>
       <div className="relative group aspect-square">
         {isImageLoading && (
           <div className="w-full h-full flex items-center justify-center bg-gray-100">
@@ -170,9 +231,28 @@ const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
           </div>
         )}
         
-        <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-all duration-300 flex items-center justify-center opacity-0 group-hover:opacity-100">
+        <div
+          className={`absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-all duration-300 flex items-center justify-center opacity-0 group-hover:opacity-100 ${
+            onOpen ? 'cursor-zoom-in focus-visible:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-imaginate-purple' : ''
+          }`}
+          {...(onOpen && {
+            role: 'button',
+            tabIndex: 0,
+            'aria-label': 'View image',
+            onClick: onOpen,
+            onKeyDown: (e: React.KeyboardEvent) => {
+              if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+                e.preventDefault();
+                onOpen();
+              }
+            },
+          })}
+        >
           <Button 
-            onClick={handleDownload}
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDownload();
+            }}
             variant="secondary"
             className="flex items-center space-x-2"
             disabled={imageError}
@@ -181,25 +261,190 @@ const ImageCard: React.FC<ImageCardProps> = ({ image }) => {
             <span>Download</span>
           </Button>
         </div>
+
+        {onSelect && (
+          <div
+            className={`absolute top-2 left-2 z-10 transition-opacity ${
+              selected || selectionActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+            }`}
+          >
+            <Checkbox
+              checked={selected}
+              // Selection is handled by the parent, which needs the shift key for ranges
+              onClick={(e) => {
+                e.preventDefault();
+                onSelect(e);
+              }}
+              className="h-5 w-5 bg-white shadow data-[state=checked]:bg-imaginate-purple"
+              aria-label={selected ? 'Deselect image' : 'Select image'}
+            />
+          </div>
+        )}
       </div>
       
       <div className="p-3 flex flex-col flex-grow">
         <h3 className="font-medium text-sm line-clamp-2 flex-grow">
           "{image.prompt}"
         </h3>
+        <ImageParameters image={image} className="mt-2" />
+        {image.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {image.tags.slice(0, MAX_VISIBLE_TAGS).map(tag => (
+              <Link key={tag} to={`/history?tag=${encodeURIComponent(tag)}`}>
+                <Badge variant="secondary" className="text-[10px] font-normal hover:bg-imaginate-purple/10">
+                  {tag}
+                </Badge>
+              </Link>
+            ))}
+            {image.tags.length > MAX_VISIBLE_TAGS && (
+              <Badge variant="outline" className="text-[10px] font-normal" title={image.tags.join(', ')}>
+                +{image.tags.length - MAX_VISIBLE_TAGS}
+              </Badge>
+            )}
+          </div>
+        )}
         <div className="flex justify-between items-center mt-2">
           <span className="text-xs text-gray-500">
             {new Date(image.createdAt).toLocaleDateString()}
           </span>
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            className="text-imaginate-purple hover:bg-imaginate-purple/10 h-8 px-2"
-            onClick={handleDownload}
-            disabled={imageError}
-          >
-            <Download size={14} />
-          </Button>
+          <div className="flex items-center">
+            {isAuthenticated && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`h-8 px-2 ${image.isFavorite ? 'text-yellow-500 hover:text-yellow-600' : 'text-gray-400 hover:text-yellow-500'}`}
+                onClick={() => toggleFavorite(image)}
+                disabled={isUnsavedImage(image)}
+                aria-label={image.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                aria-pressed={image.isFavorite}
+              >
+                <Star size={14} className={image.isFavorite ? 'fill-current' : ''} />
+              </Button>
+            )}
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              className="text-imaginate-purple hover:bg-imaginate-purple/10 h-8 px-2"
+              onClick={handleDownload}
+              disabled={imageError}
+            >
+              <Download size={14} />
+            </Button>
+            {isAuthenticated && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 px-2" aria-label="More actions">
+                    <MoreVertical size={14} />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={handleDownload} disabled={imageError}>
+                    <Download size={14} className="mr-2" />
+                    Download
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild disabled={isUnsavedImage(image)}>
+                    <Link to={`/image/${image.id}`}>
+                      <ExternalLink size={14} className="mr-2" />
+                      Open image page
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      toast.info('Generating a new version…');
+                      regenerateImage(image);
+                    }}
+                    disabled={isGenerating}
+                  >
+                    <RefreshCw size={14} className="mr-2" />
+                    Regenerate
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => navigate(`/dashboard?remix=${image.id}`)}
+                    disabled={isUnsavedImage(image)}
+                  >
+                    <Shuffle size={14} className="mr-2" />
+                    Remix
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild disabled={isUnsavedImage(image) || imageError}>
+                    <Link to={`/image/${image.id}/edit`}>
+                      <SlidersHorizontal size={14} className="mr-2" />
+                      Edit
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setInpaintDialogOpen(true)} disabled={imageError}>
+                    <Brush size={14} className="mr-2" />
+                    Inpaint
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setExtendDialogOpen(true)} disabled={imageError}>
+                    <Expand size={14} className="mr-2" />
+                    Extend
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger disabled={isUnsavedImage(image) || imageError}>
+                      <Maximize2 size={14} className="mr-2" />
+                      Upscale
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {UPSCALE_FACTORS.map(factor => {
+                        // Sizes are checked again against the file when upscaling
+                        const width = image.width ? image.width * factor : null;
+                        const height = image.height ? image.height * factor : null;
+                        const tooLarge = !!width && !!height && Math.max(width, height) > MAX_UPSCALE_DIMENSION;
+                        return (
+                          <DropdownMenuItem
+                            key={factor}
+                            onSelect={() => {
+                              toast.info(`Upscaling ${factor}×…`);
+                              upscaleImage(image, factor);
+                            }}
+                            disabled={tooLarge}
+                          >
+                            <span className="font-medium mr-2">{factor}×</span>
+                            {width && height && (
+                              <span className="text-xs text-gray-500">
+                                {tooLarge
+                                  ? `over ${MAX_UPSCALE_DIMENSION}px`
+                                  : `${width}×${height} · ${formatCredits(creditCostForImage(width, height))}`}
+                              </span>
+                            )}
+                          </DropdownMenuItem>
+                        );
+                      })}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem onSelect={() => setCollectionDialogOpen(true)}>
+                    <FolderPlus size={14} className="mr-2" />
+                    Add to collection
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setTagDialogOpen(true)}>
+                    <Tags size={14} className="mr-2" />
+                    Edit tags
+                  </DropdownMenuItem>
+                  {menuItems}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => deleteImage.mutate(image.id)}
+                    className="text-red-600 focus:text-red-600"
+                  >
+                    <Trash2 size={14} className="mr-2" />
+                    Move to trash
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {isAuthenticated && (
+              <>
+                <AddToCollectionDialog
+                  imageIds={[image.id]}
+                  open={collectionDialogOpen}
+                  onOpenChange={setCollectionDialogOpen}
+                />
+                <TagEditorDialog image={image} open={tagDialogOpen} onOpenChange={setTagDialogOpen} />
+                <InpaintDialog image={image} open={inpaintDialogOpen} onOpenChange={setInpaintDialogOpen} />
+                <ExtendDialog image={image} open={extendDialogOpen} onOpenChange={setExtendDialogOpen} />
+              </>
+            )}
+          </div>
         </div>
       </div>
     </Card>
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { CalendarIcon, Search, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ASPECT_RATIO_PRESETS } from '@/lib/generation';
+import { listProviders } from '@/lib/providers';
+import {
+  DEFAULT_IMAGE_FILTERS,
+  IMAGE_SORT_OPTIONS,
+  ImageFilters,
+  ImageSort,
+  hasActiveFilters,
+} from '@/lib/image-filters';
+
+// Radix selects can't use an empty value, this stands for "no filter"
+const ANY = 'any';
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface ImageFilterBarProps {
+  value: ImageFilters;
+  onChange: (value: ImageFilters) => void;
+}
+
+const ImageFilterBar: React.FC<ImageFilterBarProps> = ({ value, onChange }) => {
+  const [query, setQuery] = useState(value.query);
+  const providers = listProviders();
+  const models = value.provider
+    ? providers.find(provider => provider.id === value.provider)?.models ?? []
+    : providers.flatMap(provider => provider.models);
+
+  const update = (changes: Partial<ImageFilters>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  // Follow the URL when it changes from outside, e.g. back navigation
+  useEffect(() => {
+    setQuery(value.query);
+  }, [value.query]);
+
+  // Search as the user types, without a request per keystroke
+  useEffect(() => {
+    if (query.trim() === value.query) return;
+    const timer = setTimeout(() => onChange({ ...value, query: query.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, value, onChange]);
+
+  const dateRange: DateRange | undefined = value.from || value.to
+    ? { from: value.from ? parseISO(value.from) : undefined, to: value.to ? parseISO(value.to) : undefined }
+    : undefined;
+
+  const handleDateRangeChange = (range: DateRange | undefined) => {
+    update({
+      from: range?.from ? format(range.from, 'yyyy-MM-dd') : null,
+      to: range?.to ? format(range.to, 'yyyy-MM-dd') : null,
+    });
+  };
+
+  const dateLabel = value.from
+    ? value.to && value.to !== value.from
+      ? `${format(parseISO(value.from), 'MMM d, yyyy')} – ${format(parseISO(value.to), 'MMM d, yyyy')}`
+      : format(parseISO(value.from), 'MMM d, yyyy')
+    : value.to
+      ? `Until ${format(parseISO(value.to), 'MMM d, yyyy')}`
+      : 'Any date';
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search prompts, e.g. neon city -rain"
+          className="pl-9"
+          aria-label="Search prompts"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className={dateRange ? 'text-imaginate-purple' : ''}>
+              <CalendarIcon size={14} className="mr-2" />
+              {dateLabel}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={handleDateRangeChange}
+              numberOfMonths={2}
+              disabled={{ after: new Date() }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+
+        <Select
+          value={value.size ?? ANY}
+          onValueChange={(size) => update({ size: size === ANY ? null : size })}
+        >
+          <SelectTrigger className="w-[170px] h-9" aria-label="Dimensions">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any size</SelectItem>
+            {ASPECT_RATIO_PRESETS.map(preset => (
+              <SelectItem key={preset.id} value={`${preset.width}x${preset.height}`}>
+                {preset.width}×{preset.height} ({preset.id})
+              </SelectItem>
+            ))}
+            {value.size && !ASPECT_RATIO_PRESETS.some(preset => `${preset.width}x${preset.height}` === value.size) && (
+              <SelectItem value={value.size}>{value.size.replace('x', '×')}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={value.provider ?? ANY}
+          onValueChange={(provider) => update({ provider: provider === ANY ? null : provider, model: null })}
+        >
+          <SelectTrigger className="w-[170px] h-9" aria-label="Provider">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any provider</SelectItem>
+            {providers.map(provider => (
+              <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={value.model ?? ANY}
+          onValueChange={(model) => update({ model: model === ANY ? null : model })}
+        >
+          <SelectTrigger className="w-[170px] h-9" aria-label="Model">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any model</SelectItem>
+            {models.map(model => (
+              <SelectItem key={model} value={model}>{model}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={value.sort}
+          onValueChange={(sort) => update({ sort: sort as ImageSort })}
+        >
+          <SelectTrigger className="w-[150px] h-9 ml-auto" aria-label="Sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IMAGE_SORT_OPTIONS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Favorites are a tab on the page rather than a filter here */}
+        {hasActiveFilters({ ...value, favorites: false }) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...DEFAULT_IMAGE_FILTERS, favorites: value.favorites, sort: value.sort })}
+          >
+            <X size={14} className="mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageFilterBar;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -6,8 +6,12 @@ import {
   Wand2, 
   Download,
   Loader2,
-  ImageIcon
+  ImageIcon,
+  Shuffle,
+  X,
+  XCircle
 } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import { useImage } from '@/contexts/ImageContext';
 import { GeneratedImage } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
@@ -15,16 +19,66 @@ import { toast } from 'sonner';
 import { Card } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import GenerationOptions from '@/components/GenerationOptions';
+import ImageParameters from '@/components/ImageParameters';
+import BatchResultGrid from '@/components/BatchResultGrid';
+import UpgradeHint from '@/components/UpgradeHint';
+import ReferenceImagePicker, { ReferenceImage } from '@/components/ReferenceImagePicker';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationSettings,
+  MAX_BATCH_SIZE,
+  imageGenerationSettings,
+} from '@/lib/generation';
+import { isJobActive } from '@/types/database';
+import { creditCostForBatch, formatCredits } from '@/lib/credits';
+import { tierLimitViolation } from '@/lib/tiers';
+import { downloadImage } from '@/lib/download';
+import { useUsage } from '@/hooks/use-usage';
+import { useImageHistory } from '@/hooks/use-images';
+import { useImageDetail } from '@/hooks/use-image-detail';
+import { getActiveProvider } from '@/lib/providers';
 
 const ImageGenerator = () => {
   const [prompt, setPrompt] = useState('');
-  const { generateImage, isGenerating } = useImage();
-  const { isAuthenticated } = useAuth();
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const { generateImage, isGenerating, activeJob, jobs, cancelGeneration } = useImage();
+  const { images: history } = useImageHistory();
+  const { isAuthenticated, user } = useAuth();
   const [currentImage, setCurrentImage] = useState<GeneratedImage | null>(null);
+  const [batchImages, setBatchImages] = useState<GeneratedImage[]>([]);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [imageError, setImageError] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [isImageLoading, setIsImageLoading] = useState(false);
+  const [trackedBatchId, setTrackedBatchId] = useState<string | null>(null);
+  // Remix links (?remix=<image id>) start from another image's prompt and settings
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: remixSource } = useImageDetail(searchParams.get('remix') ?? undefined);
+  const [prefilledRemixId, setPrefilledRemixId] = useState<string | null>(null);
+  const [reference, setReference] = useState<ReferenceImage | null>(null);
+  const supportsReference = getActiveProvider().capabilities.imageToImage;
+
+  const creditCost = creditCostForBatch(settings.width, settings.height, settings.count);
+  const creditBalance = user?.credits ?? 0;
+  const hasEnoughCredits = !isAuthenticated || creditCost <= creditBalance;
+
+  const { tier, usage, refresh: refreshUsage } = useUsage();
+  // Tier limits apply to saved images, guests' images aren't saved
+  const limitViolation = isAuthenticated ? tierLimitViolation(settings, tier, usage) : null;
+  const generationsLeft = usage ? Math.max(tier.dailyGenerations - usage.generationsToday, 0) : null;
+
+  const batchJobs = jobs.filter(job => trackedBatchId && job.batchId === trackedBatchId);
+  const activeBatchJobs = batchJobs.filter(isJobActive);
+  const batchProgress = activeBatchJobs.length > 0
+    ? batchJobs.reduce((total, job) => total + (isJobActive(job) || job.status === 'succeeded' ? job.progress : 100), 0) / batchJobs.length
+    : null;
 
   // Reset image states when a new image is being generated
   useEffect(() => {
@@ -32,20 +86,97 @@ const ImageGenerator = () => {
       setImageLoaded(false);
       setImageError(false);
       setIsImageLoading(true);
-      
-      // Simulate loading progress
-      setProgress(0);
-      const interval = setInterval(() => {
-        setProgress(prev => {
-          const newProgress = prev + 10;
-          return newProgress > 90 ? 90 : newProgress;
-        });
-      }, 500);
-      
-      return () => clearInterval(interval);
     }
   }, [isGenerating]);
 
+  // Keep the daily allowance and storage use current after each generation
+  useEffect(() => {
+    if (!isGenerating) {
+      refreshUsage();
+    }
+  }, [isGenerating, refreshUsage]);
+
+  // Drop options the plan doesn't allow, e.g. after a downgrade
+  useEffect(() => {
+    setSettings(prev => {
+      const count = Math.min(prev.count, tier.maxBatchSize);
+      const isPrivate = prev.isPrivate && tier.maxPrivateImages !== 0;
+      return count === prev.count && isPrivate === prev.isPrivate ? prev : { ...prev, count, isPrivate };
+    });
+  }, [tier]);
+
+  useEffect(() => {
+    if (!remixSource || remixSource.id === prefilledRemixId) return;
+    setPrompt(remixSource.prompt);
+    setSettings({
+      ...DEFAULT_GENERATION_SETTINGS,
+      ...imageGenerationSettings(remixSource),
+      seed: remixSource.seed,
+      isPrivate: remixSource.isPrivate && tier.maxPrivateImages !== 0,
+    });
+    // References are only readable by their owner, remixing someone else's image starts without it
+    setReference(remixSource.sourceImagePath && remixSource.sourceImageUrl
+      ? {
+        previewUrl: remixSource.sourceImageUrl,
+        label: 'Reference of the remixed image',
+        blob: null,
+        storagePath: remixSource.sourceImagePath,
+      }
+      : null);
+    setPrefilledRemixId(remixSource.id);
+  }, [remixSource, prefilledRemixId, tier]);
+
+  const clearRemix = () => {
+    setSearchParams(params => {
+      params.delete('remix');
+      return params;
+    }, { replace: true });
+  };
+
+  // Follow the running batch, including ones started before a reload or in another tab
+  useEffect(() => {
+    if (activeJob?.batchId) {
+      setTrackedBatchId(activeJob.batchId);
+    }
+  }, [activeJob]);
+
+  const showImage = useCallback((image: GeneratedImage) => {
+    setCurrentImage(image);
+    // Pre-load the image to ensure it's in cache
+    const img = new Image();
+    img.onload = () => {
+      setImageLoaded(true);
+      setIsImageLoading(false);
+    };
+    img.onerror = () => {
+      setImageError(true);
+      setIsImageLoading(false);
+    };
+    img.src = image.imageUrl;
+  }, []);
+
+  const showBatch = useCallback((images: GeneratedImage[]) => {
+    setBatchImages(images);
+    showImage(images[0]);
+  }, [showImage]);
+
+  // Show the results of a tracked batch once all of its jobs have finished
+  useEffect(() => {
+    const trackedJobs = jobs.filter(job => trackedBatchId && job.batchId === trackedBatchId);
+    if (trackedJobs.length === 0 || trackedJobs.some(isJobActive)) return;
+
+    const imageIds = trackedJobs
+      .filter(job => job.status === 'succeeded' && job.imageId)
+      .map(job => job.imageId);
+    if (imageIds.length === 0) return;
+    if (imageIds.every(id => batchImages.some(image => image.id === id))) return;
+
+    const images = history.filter(item => imageIds.includes(item.id));
+    if (images.length === imageIds.length) {
+      showBatch(images);
+    }
+  }, [jobs, history, trackedBatchId, batchImages, showBatch]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim()) {
@@ -58,23 +189,16 @@ const ImageGenerator = () => {
     setImageError(false);
     setIsImageLoading(true);
     
-    const result = await generateImage(prompt);
-    if (result) {
-      console.log("Image generation successful, URL:", result.imageUrl);
-      setCurrentImage(result);
+    const results = await generateImage(prompt, settings, {
+      parentImageId: remixSource?.id,
+      sourceImage: reference?.blob,
+      sourceImagePath: reference?.storagePath,
+    });
+    if (results.length > 0) {
+      console.log("Image generation successful, URLs:", results.map(result => result.imageUrl));
       setPrompt('');
-      setProgress(100);
-      // Pre-load the image to ensure it's in cache
-      const img = new Image();
-      img.onload = () => {
-        setImageLoaded(true);
-        setIsImageLoading(false);
-      };
-      img.onerror = () => {
-        setImageError(true);
-        setIsImageLoading(false);
-      };
-      img.src = result.imageUrl;
+      if (remixSource) clearRemix();
+      showBatch(results);
     } else {
       setIsImageLoading(false);
     }
@@ -84,22 +208,7 @@ const ImageGenerator = () => {
     if (!currentImage) return;
     
     try {
-      // Add a timestamp parameter to avoid cache issues
-      const imageUrl = currentImage.imageUrl.includes('?') 
-        ? `${currentImage.imageUrl}&t=${Date.now()}` 
-        : `${currentImage.imageUrl}?t=${Date.now()}`;
-        
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      
-      // Create a download link and trigger it
-      const downloadLink = document.createElement('a');
-      downloadLink.href = URL.createObjectURL(blob);
-      downloadLink.download = `imaginate-${currentImage.id}.jpg`;
-      document.body.appendChild(downloadLink);
-      downloadLink.click();
-      document.body.removeChild(downloadLink);
-      
+      await downloadImage(currentImage);
       toast.success('Image downloaded successfully');
     } catch (error) {
       console.error('Error downloading image:', error);
@@ -112,7 +221,6 @@ const ImageGenerator = () => {
     setImageLoaded(true);
     setImageError(false);
     setIsImageLoading(false);
-    setProgress(100);
   };
 
   const handleImageError = (e: React.SyntheticEvent<HTMLImageElement>) => {
@@ -122,7 +230,7 @@ const ImageGenerator = () => {
     setIsImageLoading(false);
     
     // Try to reload the image with a cache-busting parameter
-    if (currentImage && !currentImage.imageUrl.includes('t=')) {
+    if (currentImage && !currentImage.imageUrl.startsWith('blob:') && !currentImage.imageUrl.includes('t=')) {
       const newUrl = currentImage.imageUrl.includes('?') 
         ? `${currentImage.imageUrl}&t=${Date.now()}` 
         : `${currentImage.imageUrl}?t=${Date.now()}`;
@@ -150,7 +258,23 @@ const ImageGenerator = () => {
               className="flex-1"
               disabled={isGenerating}
             />
-            <Button type="submit" disabled={isGenerating || !prompt.trim()}>
+            <Select
+              value={settings.count.toString()}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, count: parseInt(value, 10) }))}
+              disabled={isGenerating}
+            >
+              <SelectTrigger className="w-[110px]" aria-label="Number of images">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_BATCH_SIZE }, (_, index) => index + 1).map(count => (
+                  <SelectItem key={count} value={count.toString()} disabled={count > tier.maxBatchSize}>
+                    {count} {count === 1 ? 'image' : 'images'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isGenerating || !prompt.trim() || !hasEnoughCredits || !!limitViolation}>
               {isGenerating ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -164,29 +288,126 @@ const ImageGenerator = () => {
               )}
             </Button>
           </div>
+          {remixSource && (
+            <div className="flex items-center gap-3 rounded-md border bg-gray-50 p-2">
+              <img
+                src={remixSource.thumbnailUrl ?? remixSource.imageUrl}
+                alt=""
+                className="h-10 w-10 rounded object-cover"
+              />
+              <Shuffle size={14} className="text-imaginate-gray shrink-0" />
+              <p className="flex-1 min-w-0 truncate text-sm text-imaginate-gray" title={remixSource.prompt}>
+                Remixing "{remixSource.prompt}"
+              </p>
+              <Button type="button" variant="ghost" size="sm" onClick={clearRemix} aria-label="Stop remixing">
+                <X size={14} />
+              </Button>
+            </div>
+          )}
           {!isAuthenticated && (
             <p className="text-sm text-imaginate-gray mt-2">
               <span className="font-medium">Sign in</span> to save your generated images
             </p>
           )}
+          {isAuthenticated && (
+            <p className={`text-sm mt-2 ${hasEnoughCredits ? 'text-imaginate-gray' : 'text-red-500'}`}>
+              {hasEnoughCredits
+                ? `Uses ${formatCredits(creditCost)} · ${formatCredits(creditBalance)} left`
+                : `Not enough credits: this needs ${formatCredits(creditCost)} and you have ${formatCredits(creditBalance)}. Try fewer images or a smaller size.`}
+              {generationsLeft !== null && ` · ${generationsLeft} of ${tier.dailyGenerations} generations left today`}
+            </p>
+          )}
+          {limitViolation && (
+            <p className="text-sm text-red-500">{limitViolation}</p>
+          )}
+          {tier.maxBatchSize < MAX_BATCH_SIZE && (
+            <UpgradeHint
+              isAllowed={limits => limits.maxBatchSize > tier.maxBatchSize}
+              message={limits => `Upgrade to ${limits.name} to generate up to ${limits.maxBatchSize} images at once`}
+            />
+          )}
+          {limitViolation && generationsLeft === 0 && (
+            <UpgradeHint
+              isAllowed={limits => limits.dailyGenerations > tier.dailyGenerations}
+              message={limits => `${limits.name} allows ${limits.dailyGenerations} generations per day`}
+            />
+          )}
         </div>
+        <ReferenceImagePicker
+          value={reference}
+          onChange={setReference}
+          strength={settings.strength}
+          onStrengthChange={(strength) => setSettings(prev => ({ ...prev, strength }))}
+          isSupported={supportsReference}
+          canPickFromHistory={isAuthenticated}
+          disabled={isGenerating}
+        />
+        <GenerationOptions
+          value={settings}
+          onChange={setSettings}
+          disabled={isGenerating}
+          tier={tier}
+          showPrivacy={isAuthenticated}
+        />
       </form>
 
       {isGenerating && (
         <div className="mt-8 p-8 border-2 border-dashed border-imaginate-gray/30 rounded-lg flex flex-col items-center justify-center">
-          <div className="w-full max-w-md mb-4">
-            <Progress value={progress} className="h-2 bg-gray-100" />
-          </div>
+          {batchProgress !== null && (
+            <div className="w-full max-w-md mb-4">
+              <Progress value={batchProgress} className="h-2 bg-gray-100" />
+            </div>
+          )}
           <div className="relative w-16 h-16 mb-4">
             <div className="absolute inset-0 bg-gradient-to-r from-imaginate-purple to-imaginate-blue opacity-20 rounded-full animate-pulse"></div>
             <Loader2 className="animate-spin absolute inset-0 m-auto text-imaginate-purple" size={32} />
           </div>
           <p className="text-xl font-medium text-imaginate-gray animate-pulse-opacity">Creating your masterpiece...</p>
-          <p className="text-sm text-imaginate-gray/70 mt-2">This may take a few moments</p>
+          <p className="text-sm text-imaginate-gray/70 mt-2">
+            {activeJob?.status === 'queued' ? 'Waiting in the queue...' : 'This may take a few moments'}
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="mt-4"
+            onClick={() => cancelGeneration()}
+          >
+            <XCircle size={16} className="mr-2" />
+            Cancel
+          </Button>
         </div>
       )}
 
-      {currentImage && !isGenerating && (
+      {currentImage && !isGenerating && batchImages.length > 1 && (
+        <Card className="mt-8 overflow-hidden">
+          <BatchResultGrid
+            images={batchImages}
+            selectedId={currentImage.id}
+            onSelect={setCurrentImage}
+          />
+          <div className="p-4">
+            <h3 className="font-medium text-lg">"{currentImage.prompt}"</h3>
+            <ImageParameters image={currentImage} className="mt-2" />
+            <div className="flex justify-between items-center mt-4">
+              <span className="text-sm text-gray-500">
+                {batchImages.length} variations · pick one to download
+              </span>
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                className="text-imaginate-purple"
+                onClick={handleDownload}
+              >
+                <Download size={16} className="mr-1" />
+                Download selected
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {currentImage && !isGenerating && batchImages.length <= 1 && (
         <Card className="mt-8 overflow-hidden">
           <div className="relative group">
             {(isImageLoading || (!imageLoaded && !imageError)) && (
@@ -253,6 +474,7 @@ const ImageGenerator = () => {
           
           <div className="p-4">
             <h3 className="font-medium text-lg">"{currentImage.prompt}"</h3>
+            <ImageParameters image={currentImage} className="mt-2" />
             <div className="flex justify-between items-center mt-4">
               <span className="text-sm text-gray-500">
                 {new Date(currentImage.createdAt).toLocaleString()}
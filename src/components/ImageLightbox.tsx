@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Copy, Download, ExternalLink, Info, RefreshCw, Trash2, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import ImageMetadata from '@/components/ImageMetadata';
+import { GeneratedImage, isUnsavedImage } from '@/types/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImage } from '@/contexts/ImageContext';
+import { useDeleteImage } from '@/hooks/use-images';
+import { downloadImage } from '@/lib/download';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+// Images either side of the current one that are loaded ahead
+const PRELOAD_DISTANCE = 1;
+
+type View = { zoom: number; x: number; y: number };
+const DEFAULT_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+
+interface ImageLightboxProps {
+  images: GeneratedImage[];
+  // Image shown, null while the lightbox is closed
+  imageId: string | null;
+  onImageChange: (imageId: string | null) => void;
+  // For paged lists like History, the next page is loaded near the end
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+// Shortcuts: ←/→ browse, +/-/0 zoom, D download, C copy prompt, R regenerate,
+// Delete move to trash, I toggle the details panel
+const ImageLightbox: React.FC<ImageLightboxProps> = ({
+  images,
+  imageId,
+  onImageChange,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}) => {
+  const { isAuthenticated } = useAuth();
+  const { regenerateImage, isGenerating } = useImage();
+  const deleteImage = useDeleteImage();
+  const [api, setApi] = useState<CarouselApi>();
+  const [view, setView] = useState<View>(DEFAULT_VIEW);
+  const [showDetails, setShowDetails] = useState(true);
+  const [isPanning, setIsPanning] = useState(false);
+  const panStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  // Where the shown image was, to stay in place when it leaves the list
+  const lastIndex = useRef(0);
+  // Where the carousel opened, changing its options later would re-initialise it
+  const startIndex = useRef<number | null>(null);
+
+  const index = images.findIndex(image => image.id === imageId);
+  const image = index === -1 ? null : images[index];
+  if (index !== -1) lastIndex.current = index;
+  if (imageId === null) startIndex.current = null;
+  else if (startIndex.current === null && index !== -1) startIndex.current = index;
+
+  // A deleted image is replaced by the one that took its place
+  useEffect(() => {
+    if (imageId === null || index !== -1) return;
+    const next = images[Math.min(lastIndex.current, images.length - 1)];
+    onImageChange(next?.id ?? null);
+  }, [imageId, index, images, onImageChange]);
+
+  useEffect(() => {
+    setView(DEFAULT_VIEW);
+  }, [imageId]);
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => {
+      const selected = images[api.selectedScrollSnap()];
+      if (selected) onImageChange(selected.id);
+    };
+    api.on('select', handleSelect);
+    return () => {
+      api.off('select', handleSelect);
+    };
+  }, [api, images, onImageChange]);
+
+  // Keep the carousel on the shown image when the list around it changes
+  useEffect(() => {
+    if (api && index !== -1 && api.selectedScrollSnap() !== index) {
+      api.scrollTo(index, true);
+    }
+  }, [api, index, images.length]);
+
+  useEffect(() => {
+    if (index !== -1 && index >= images.length - 2 && hasMore && !isLoadingMore) {
+      onLoadMore?.();
+    }
+  }, [index, images.length, hasMore, isLoadingMore, onLoadMore]);
+
+  const zoomBy = (delta: number) => {
+    setView(current => {
+      const zoom = clampZoom(current.zoom + delta);
+      return zoom === MIN_ZOOM ? DEFAULT_VIEW : { ...current, zoom };
+    });
+  };
+
+  const handleDownload = async () => {
+    if (!image) return;
+    try {
+      await downloadImage(image);
+      toast.success('Image downloaded successfully');
+    } catch (error) {
+      console.error('Error downloading image:', error);
+      toast.error('Failed to download image');
+    }
+  };
+
+  const handleCopyPrompt = async () => {
+    if (!image) return;
+    try {
+      await navigator.clipboard.writeText(image.prompt);
+      toast.success('Prompt copied');
+    } catch (error) {
+      console.error('Error copying prompt:', error);
+      toast.error('Failed to copy prompt');
+    }
+  };
+
+  const handleRegenerate = () => {
+    if (!image || isGenerating) return;
+    toast.info('Generating a new version…');
+    regenerateImage(image);
+  };
+
+  const canDelete = isAuthenticated && !!image && !isUnsavedImage(image);
+  const handleDelete = () => {
+    if (canDelete) deleteImage.mutate(image.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The carousel handles the arrows itself while it has focus
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const actions: Record<string, () => void> = {
+      ArrowLeft: () => api?.scrollPrev(),
+      ArrowRight: () => api?.scrollNext(),
+      '+': () => zoomBy(ZOOM_STEP),
+      '=': () => zoomBy(ZOOM_STEP),
+      '-': () => zoomBy(-ZOOM_STEP),
+      '0': () => setView(DEFAULT_VIEW),
+      d: handleDownload,
+      c: handleCopyPrompt,
+      r: handleRegenerate,
+      i: () => setShowDetails(show => !show),
+      Delete: handleDelete,
+      Backspace: handleDelete,
+    };
+    const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (view.zoom === MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+    setIsPanning(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = panStart.current;
+    if (!start) return;
+    setView(current => ({
+      ...current,
+      x: start.x + e.clientX - start.pointerX,
+      y: start.y + e.clientY - start.pointerY,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    panStart.current = null;
+    setIsPanning(false);
+  };
+
+  return (
+    <Dialog open={imageId !== null} onOpenChange={(open) => !open && onImageChange(null)}>
+      <DialogContent
+        onKeyDown={handleKeyDown}
+        className={`flex max-w-none w-screen h-screen gap-0 p-0 border-0 bg-black sm:rounded-none ${
+          showDetails ? '' : '[&>button]:text-white'
+        }`}
+      >
+        <DialogTitle className="sr-only">{image?.prompt ?? 'Image'}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Use the arrow keys to browse, + and - to zoom, D to download, C to copy the prompt, R to regenerate and Delete to move to trash.
+        </DialogDescription>
+
+        <div className="relative flex-1 min-w-0">
+          {index !== -1 && (
+            <Carousel
+              setApi={setApi}
+              opts={{ startIndex: startIndex.current ?? index, watchDrag: view.zoom === MIN_ZOOM }}
+              className="h-full"
+            >
+              <CarouselContent className="ml-0">
+                {images.map((item, itemIndex) => (
+                  <CarouselItem key={item.id} className="pl-0 h-screen flex items-center justify-center overflow-hidden">
+                    {Math.abs(itemIndex - index) <= PRELOAD_DISTANCE && (
+                      <img
+                        src={item.imageUrl}
+                        alt={item.prompt}
+                        draggable={false}
+                        className={`max-w-full max-h-full object-contain select-none ${
+                          itemIndex === index && view.zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+                        }`}
+                        style={itemIndex === index ? {
+                          transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+                          transition: isPanning ? 'none' : 'transform 150ms ease-out',
+                        } : undefined}
+                        onDoubleClick={() => setView(view.zoom === MIN_ZOOM ? { ...DEFAULT_VIEW, zoom: 2 } : DEFAULT_VIEW)}
+                        onWheel={(e) => zoomBy(e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP)}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                      />
+                    )}
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious variant="secondary" className="left-4" />
+              <CarouselNext variant="secondary" className="right-4" />
+            </Carousel>
+          )}
+
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-1 text-white">
+            <Button variant="ghost" size="icon" className="h-8 w-8 text-white hover:bg-white/20 hover:text-white" onClick={() => zoomBy(-ZOOM_STEP)} disabled={view.zoom === MIN_ZOOM} aria-label="Zoom out">
+              <ZoomOut size={16} />
+            </Button>
+            <span className="w-12 text-center text-xs tabular-nums">{Math.round(view.zoom * 100)}%</span>
+            <Button variant="ghost" size="icon" className="h-8 w-8 text-white hover:bg-white/20 hover:text-white" onClick={() => zoomBy(ZOOM_STEP)} disabled={view.zoom === MAX_ZOOM} aria-label="Zoom in">
+              <ZoomIn size={16} />
+            </Button>
+            <span className="px-2 text-xs text-white/70 tabular-nums">
+              {index + 1} / {images.length}{hasMore ? '+' : ''}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-white hover:bg-white/20 hover:text-white"
+              onClick={() => setShowDetails(show => !show)}
+              aria-label={showDetails ? 'Hide details' : 'Show details'}
+              aria-pressed={showDetails}
+            >
+              <Info size={16} />
+            </Button>
+          </div>
+        </div>
+
+        {showDetails && image && (
+          <aside className="absolute inset-y-0 right-0 z-10 w-80 max-w-full overflow-y-auto bg-white p-6 pt-12 md:static">
+            <p className="text-sm font-medium whitespace-pre-line">{image.prompt}</p>
+            {!isUnsavedImage(image) && (
+              <Link to={`/image/${image.id}`} className="inline-flex items-center text-xs text-imaginate-purple hover:underline mt-2">
+                <ExternalLink size={12} className="mr-1" />
+                Open image page
+              </Link>
+            )}
+
+            <div className="grid grid-cols-2 gap-2 mt-4">
+              <Button variant="outline" size="sm" onClick={handleDownload}>
+                <Download size={14} className="mr-2" />
+                Download
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleCopyPrompt}>
+                <Copy size={14} className="mr-2" />
+                Copy prompt
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRegenerate} disabled={isGenerating}>
+                <RefreshCw size={14} className={`mr-2 ${isGenerating ? 'animate-spin' : ''}`} />
+                Regenerate
+              </Button>
+              {canDelete && (
+                <Button variant="outline" size="sm" className="text-red-500 border-red-200 hover:bg-red-50" onClick={handleDelete}>
+                  <Trash2 size={14} className="mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+
+            <ImageMetadata image={image} className="mt-6" />
+
+            <p className="text-xs text-gray-400 mt-6">
+              ←/→ browse · +/− zoom · D download · C copy prompt · R regenerate{canDelete ? ' · Del delete' : ''} · I details
+            </p>
+          </aside>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageLightbox;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { GeneratedImage } from '@/types/database';
+import { cn } from '@/lib/utils';
+
+interface ImageMetadataProps {
+  image: GeneratedImage;
+  className?: string;
+}
+
+const Detail: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-xs text-gray-500">{label}</dt>
+    <dd className="text-sm break-words">{children}</dd>
+  </div>
+);
+
+// Everything recorded about an image, for the lightbox and the image page.
+// Cards use the compact ImageParameters instead.
+const ImageMetadata: React.FC<ImageMetadataProps> = ({ image, className }) => (
+  <dl className={cn('space-y-3', className)}>
+    <Detail label="Created">{new Date(image.createdAt).toLocaleString()}</Detail>
+    {image.width && image.height && <Detail label="Size">{image.width}×{image.height}</Detail>}
+    {image.aspectRatio && <Detail label="Aspect ratio">{image.aspectRatio}</Detail>}
+    {image.seed !== null && <Detail label="Seed">{image.seed}</Detail>}
+    {image.steps && <Detail label="Steps">{image.steps}</Detail>}
+    {image.guidanceScale && <Detail label="Guidance scale">{image.guidanceScale}</Detail>}
+    {image.negativePrompt && <Detail label="Negative prompt">{image.negativePrompt}</Detail>}
+    {image.strength !== null && <Detail label="Reference strength">{image.strength.toFixed(2)}</Detail>}
+    {image.provider && (
+      <Detail label="Provider">{image.model ? `${image.provider} · ${image.model}` : image.provider}</Detail>
+    )}
+    <Detail label="Visibility">{image.isPrivate ? 'Private' : 'Public'}</Detail>
+    {image.tags.length > 0 && (
+      <Detail label="Tags">
+        <span className="flex flex-wrap gap-1 mt-1">
+          {image.tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="text-[10px] font-normal">{tag}</Badge>
+          ))}
+        </span>
+      </Detail>
+    )}
+  </dl>
+);
+
+export default ImageMetadata;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { GeneratedImage } from '@/types/database';
+import { cn } from '@/lib/utils';
+
+interface ImageParametersProps {
+  image: GeneratedImage;
+  className?: string;
+}
+
+// Compact summary of the settings needed to reproduce an image
+const ImageParameters: React.FC<ImageParametersProps> = ({ image, className }) => {
+  const details = [
+    image.width && image.height ? `${image.width}×${image.height}` : null,
+    image.seed !== null && image.seed !== undefined ? `Seed ${image.seed}` : null,
+    image.steps ? `${image.steps} steps` : null,
+    image.guidanceScale ? `CFG ${image.guidanceScale}` : null,
+  ].filter(Boolean);
+
+  if (details.length === 0 && !image.negativePrompt) {
+    return null;
+  }
+
+  return (
+    <div className={cn('text-xs text-gray-500 space-y-1', className)}>
+      {details.length > 0 && <p>{details.join(' · ')}</p>}
+      {image.negativePrompt && (
+        <p className="line-clamp-1" title={image.negativePrompt}>
+          <span className="font-medium">Negative:</span> {image.negativePrompt}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ImageParameters;
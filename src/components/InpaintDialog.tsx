@@ -0,0 +1,290 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Brush, Eraser, Loader2, RotateCcw, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import ComparisonSlider from '@/components/ComparisonSlider';
+import { useImage } from '@/contexts/ImageContext';
+import { GeneratedImage, isUnsavedImage } from '@/types/database';
+import { MAX_STRENGTH, imageGenerationSettings } from '@/lib/generation';
+import { getActiveProvider } from '@/lib/providers';
+import { canvasToBlob } from '@/lib/providers/local';
+import { fetchImageBlob } from '@/lib/download';
+
+// Brush size in screen pixels, scaled to the image when painting
+const MIN_BRUSH_SIZE = 5;
+const MAX_BRUSH_SIZE = 120;
+const DEFAULT_BRUSH_SIZE = 40;
+// Only the mask's alpha matters to providers, the colour is for the overlay
+const MASK_COLOR = '#9b87f5';
+
+type Point = { x: number; y: number };
+
+interface InpaintDialogProps {
+  image: GeneratedImage;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const isMaskEmpty = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Kept in its own component so the mask and result are reset each time the dialog opens
+const InpaintEditor: React.FC<{ image: GeneratedImage; onDone: () => void }> = ({ image, onDone }) => {
+  const { generateImage, isGenerating } = useImage();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<Point | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [prompt, setPrompt] = useState('');
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [mode, setMode] = useState<'paint' | 'erase'>('paint');
+  const [hasMask, setHasMask] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [result, setResult] = useState<GeneratedImage | null>(null);
+  const isSupported = getActiveProvider().capabilities.inpainting;
+  const isBusy = isPreparing || isGenerating;
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height),
+    };
+  };
+
+  const paint = (canvas: HTMLCanvasElement, from: Point, to: Point) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const scale = canvas.width / canvas.getBoundingClientRect().width;
+
+    ctx.globalCompositeOperation = mode === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.fillStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    // A single click leaves a dot
+    if (from.x === to.x && from.y === to.y) {
+      ctx.beginPath();
+      ctx.arc(to.x, to.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    }
+
+    if (mode === 'paint') {
+      setHasMask(true);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isBusy) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    lastPoint.current = point;
+    paint(e.currentTarget, point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    const point = toCanvasPoint(e);
+    paint(e.currentTarget, lastPoint.current, point);
+    lastPoint.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const canvas = canvasRef.current;
+    if (!canvas || !prompt.trim()) return;
+
+    if (isMaskEmpty(canvas)) {
+      setHasMask(false);
+      toast.error('Paint over the part of the image you want to change.');
+      return;
+    }
+
+    setIsPreparing(true);
+    let sourceImage: Blob;
+    let maskImage: Blob;
+    try {
+      [sourceImage, maskImage] = await Promise.all([
+        fetchImageBlob(image.imageUrl),
+        canvasToBlob(canvas, 'image/png'),
+      ]);
+    } catch (error) {
+      console.error('Error preparing image for inpainting:', error);
+      toast.error('Failed to load the image.');
+      return;
+    } finally {
+      setIsPreparing(false);
+    }
+
+    // The masked area is repainted completely, the rest is kept as it is
+    const [newImage] = await generateImage(
+      prompt,
+      { ...imageGenerationSettings(image), strength: MAX_STRENGTH },
+      { parentImageId: isUnsavedImage(image) ? null : image.id, sourceImage, maskImage }
+    );
+    if (newImage) {
+      setResult(newImage);
+    }
+  };
+
+  if (!isSupported) {
+    return (
+      <p className="text-sm text-gray-500 py-4">
+        The current image provider can't repaint part of an image.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      {result && (
+        <div className="space-y-4">
+          <ComparisonSlider
+            before={image.imageUrl}
+            after={result.imageUrl}
+            alt={result.prompt}
+            className="mx-auto max-w-xl"
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setResult(null)}>
+              <RotateCcw size={14} className="mr-2" />
+              Back to the mask
+            </Button>
+            {!isUnsavedImage(result) && (
+              <Button type="button" variant="outline" asChild>
+                <Link to={`/image/${result.id}`} onClick={onDone}>Open new version</Link>
+              </Button>
+            )}
+            <Button type="button" onClick={onDone}>Done</Button>
+          </div>
+        </div>
+      )}
+
+      {/* Hidden rather than unmounted while showing the result, so the mask is kept */}
+      <form onSubmit={handleSubmit} className={`space-y-4 ${result ? 'hidden' : ''}`}>
+        <div className="relative mx-auto w-fit max-w-full overflow-hidden rounded-lg bg-gray-100">
+          <img
+            src={image.imageUrl}
+            alt={image.prompt}
+            className="block max-h-[60vh] max-w-full"
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            draggable={false}
+          />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className={`absolute inset-0 h-full w-full opacity-60 touch-none ${isBusy ? 'cursor-wait' : 'cursor-crosshair'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              aria-label="Mask, paint over the area to replace"
+            />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as 'paint' | 'erase')}
+            aria-label="Brush mode"
+          >
+            <ToggleGroupItem value="paint" aria-label="Paint mask">
+              <Brush size={16} />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="erase" aria-label="Erase mask">
+              <Eraser size={16} />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex flex-1 min-w-[160px] items-center gap-3">
+            <Label className="text-sm text-gray-500 shrink-0">Brush</Label>
+            <Slider
+              aria-label="Brush size"
+              min={MIN_BRUSH_SIZE}
+              max={MAX_BRUSH_SIZE}
+              step={1}
+              value={[brushSize]}
+              onValueChange={([value]) => setBrushSize(value)}
+            />
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={clearMask} disabled={!hasMask || isBusy}>
+            Clear mask
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="What should replace the painted area?"
+            aria-label="Replacement prompt"
+            className="flex-1"
+            disabled={isBusy}
+          />
+          <Button type="submit" disabled={isBusy || !hasMask || !prompt.trim()}>
+            {isBusy ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Wand2 className="mr-2 h-4 w-4" />
+            )}
+            Inpaint
+          </Button>
+        </div>
+      </form>
+    </>
+  );
+};
+
+// Paint a mask over an image and have the provider repaint that area from a
+// new prompt. The result is saved as a new version of the image.
+const InpaintDialog: React.FC<InpaintDialogProps> = ({ image, open, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-3xl">
+      <DialogHeader>
+        <DialogTitle>Inpaint</DialogTitle>
+        <DialogDescription>Paint over the part of the image to replace, then describe what goes there.</DialogDescription>
+      </DialogHeader>
+      <InpaintEditor image={image} onDone={() => onOpenChange(false)} />
+    </DialogContent>
+  </Dialog>
+);
+
+export default InpaintDialog;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, Loader2, X } from 'lucide-react';
+import { useImage } from '@/contexts/ImageContext';
+import { GenerationJob, isJobActive } from '@/types/database';
+
+// Failed jobs stay visible for a while so errors don't go unnoticed
+const RECENT_FAILURE_MS = 60 * 60 * 1000;
+
+const statusLabels: Record<GenerationJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Generating',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const JobProgressList = () => {
+  const { jobs, cancelGeneration } = useImage();
+
+  const visibleJobs = jobs.filter(job =>
+    isJobActive(job) ||
+    (job.status === 'failed' && Date.now() - new Date(job.updatedAt).getTime() < RECENT_FAILURE_MS)
+  );
+
+  if (visibleJobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-10">
+      <h2 className="text-xl font-semibold mb-4">Generation Queue</h2>
+      <div className="space-y-3">
+        {visibleJobs.map(job => (
+          <Card key={job.id} className="p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 min-w-0">
+                {isJobActive(job) ? (
+                  <Loader2 size={16} className="animate-spin text-imaginate-purple shrink-0" />
+                ) : (
+                  <AlertCircle size={16} className="text-red-500 shrink-0" />
+                )}
+                <p className="text-sm font-medium truncate">"{job.prompt}"</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'}>
+                  {job.kind === 'upscale' && job.status === 'running' ? 'Upscaling' : statusLabels[job.status]}
+                </Badge>
+                {isJobActive(job) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-gray-500"
+                    title="Cancel generation"
+                    onClick={() => cancelGeneration(job.id)}
+                  >
+                    <X size={14} />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {isJobActive(job) ? (
+              <Progress value={job.progress} className="h-2 mt-3 bg-gray-100" />
+            ) : (
+              job.error && <p className="text-xs text-red-500 mt-2">{job.error}</p>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JobProgressList;
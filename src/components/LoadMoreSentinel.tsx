@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LoadMoreSentinelProps {
+  onLoadMore: () => void;
+  hasMore: boolean;
+  isLoading: boolean;
+}
+
+// Placed after a grid, asks for the next page as it scrolls into view
+const LoadMoreSentinel: React.FC<LoadMoreSentinelProps> = ({ onLoadMore, hasMore, isLoading }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onLoadMore, hasMore, isLoading]);
+
+  if (!hasMore && !isLoading) {
+    return null;
+  }
+
+  return (
+    <div ref={ref} className="flex justify-center py-8">
+      {isLoading && <Loader2 className="animate-spin text-imaginate-purple" size={24} />}
+    </div>
+  );
+};
+
+export default LoadMoreSentinel;
@@ -4,6 +4,7 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import AuthModal from './AuthModal';
+import { formatCredits } from '@/lib/credits';
 import { 
   Menu, 
   X, 
@@ -12,7 +13,9 @@ import {
   Image as ImageIcon,
   History, 
   Home,
-  UserCircle
+  UserCircle,
+  Coins,
+  FolderOpen
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -83,6 +86,7 @@ const Navbar = () => {
               <>
                 <Link to="/dashboard" className="text-gray-600 hover:text-imaginate-purple transition-colors">Dashboard</Link>
                 <Link to="/history" className="text-gray-600 hover:text-imaginate-purple transition-colors">History</Link>
+                <Link to="/collections" className="text-gray-600 hover:text-imaginate-purple transition-colors">Collections</Link>
               </>
             )}
           </div>
@@ -90,45 +94,61 @@ const Navbar = () => {
           {/* Auth Buttons */}
           <div className="hidden md:flex items-center space-x-4">
             {isAuthenticated && user ? (
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="outline" className="flex items-center space-x-2">
-                    <User size={16} />
-                    <span>{user?.name || user?.email?.split('@')[0]}</span>
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
-                  <DropdownMenuItem 
-                    className="cursor-pointer" 
-                    onClick={() => navigate('/profile')}
-                  >
-                    <UserCircle size={16} className="mr-2" />
-                    My Profile
-                  </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    className="cursor-pointer" 
-                    onClick={() => navigate('/dashboard')}
-                  >
-                    <ImageIcon size={16} className="mr-2" />
-                    Dashboard
-                  </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    className="cursor-pointer" 
-                    onClick={() => navigate('/history')}
-                  >
-                    <History size={16} className="mr-2" />
-                    History
-                  </DropdownMenuItem>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem 
-                    className="cursor-pointer text-red-500" 
-                    onClick={handleLogout}
-                  >
-                    <LogOut size={16} className="mr-2" />
-                    Logout
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+              <>
+                <span
+                  className="flex items-center text-sm text-gray-600"
+                  title="Credits remaining"
+                >
+                  <Coins size={16} className="mr-1 text-imaginate-purple" />
+                  {formatCredits(user.credits ?? 0)}
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="flex items-center space-x-2">
+                      <User size={16} />
+                      <span>{user?.name || user?.email?.split('@')[0]}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem 
+                      className="cursor-pointer" 
+                      onClick={() => navigate('/profile')}
+                    >
+                      <UserCircle size={16} className="mr-2" />
+                      My Profile
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      className="cursor-pointer" 
+                      onClick={() => navigate('/dashboard')}
+                    >
+                      <ImageIcon size={16} className="mr-2" />
+                      Dashboard
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      className="cursor-pointer" 
+                      onClick={() => navigate('/history')}
+                    >
+                      <History size={16} className="mr-2" />
+                      History
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      className="cursor-pointer" 
+                      onClick={() => navigate('/collections')}
+                    >
+                      <FolderOpen size={16} className="mr-2" />
+                      Collections
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem 
+                      className="cursor-pointer text-red-500" 
+                      onClick={handleLogout}
+                    >
+                      <LogOut size={16} className="mr-2" />
+                      Logout
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </>
             ) : (
               <>
                 <Button variant="outline" onClick={openLoginModal}>
@@ -164,6 +184,10 @@ const Navbar = () => {
               
               {isAuthenticated && user ? (
                 <>
+                  <div className="px-2 py-1 flex items-center space-x-2 text-gray-600">
+                    <Coins size={18} className="text-imaginate-purple" />
+                    <span>{formatCredits(user.credits ?? 0)}</span>
+                  </div>
                   <button 
                     className="px-2 py-1 rounded hover:bg-gray-100 text-left flex items-center space-x-2"
                     onClick={() => navigateTo('/profile')}
@@ -185,6 +209,13 @@ const Navbar = () => {
                     <History size={18} />
                     <span>History</span>
                   </button>
+                  <button 
+                    className="px-2 py-1 rounded hover:bg-gray-100 text-left flex items-center space-x-2"
+                    onClick={() => navigateTo('/collections')}
+                  >
+                    <FolderOpen size={18} />
+                    <span>Collections</span>
+                  </button>
                   <button 
                     onClick={handleLogout}
                     className="flex items-center space-x-2 px-2 py-1 text-left text-red-500 rounded hover:bg-red-50"
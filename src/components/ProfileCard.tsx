@@ -5,6 +5,11 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Progress } from '@/components/ui/progress';
+import { formatCredits } from '@/lib/credits';
+import { formatBytes } from '@/lib/tiers';
+import { useUsage } from '@/hooks/use-usage';
+import UpgradeHint from '@/components/UpgradeHint';
 
 type ProfileCardProps = {
   loading?: boolean;
@@ -12,6 +17,7 @@ type ProfileCardProps = {
 
 const ProfileCard: React.FC<ProfileCardProps> = ({ loading = false }) => {
   const { user } = useAuth();
+  const { tier, usage } = useUsage();
   
   if (loading) {
     return (
@@ -63,14 +69,53 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ loading = false }) => {
             <p className="text-sm text-gray-500">{user.email}</p>
             <div className="flex flex-wrap gap-2 mt-2">
               <Badge variant="outline" className="bg-imaginate-purple/10 text-imaginate-purple">
-                {user.subscriptionTier === 'premium' ? 'Premium' : 'Free'} Account
+                {tier.name} Account
               </Badge>
-              <Badge variant="outline" className="bg-green-100 text-green-800">
-                {user.credits || 0} Credits
+              <Badge
+                variant="outline"
+                className={(user.credits ?? 0) > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
+              >
+                {formatCredits(user.credits ?? 0)}
               </Badge>
             </div>
           </div>
         </div>
+
+        <div className="mt-6 space-y-3 text-sm">
+          <h4 className="font-medium">{tier.name} plan limits</h4>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-600">
+            <dt>Max resolution</dt>
+            <dd className="text-right">{tier.maxResolution}px</dd>
+            <dt>Images per generation</dt>
+            <dd className="text-right">{tier.maxBatchSize}</dd>
+            <dt>Generations today</dt>
+            <dd className="text-right">
+              {usage ? `${usage.generationsToday} / ${tier.dailyGenerations}` : tier.dailyGenerations}
+            </dd>
+            <dt>Private images</dt>
+            <dd className="text-right">
+              {tier.maxPrivateImages === 0
+                ? 'Not included'
+                : `${usage ? `${usage.privateImages} / ` : ''}${tier.maxPrivateImages ?? 'Unlimited'}`}
+            </dd>
+          </dl>
+          <div className="space-y-1">
+            <div className="flex justify-between text-gray-600">
+              <span>Storage</span>
+              <span>
+                {usage ? `${formatBytes(usage.storageUsed)} of ` : ''}{formatBytes(tier.storageQuotaBytes)}
+              </span>
+            </div>
+            <Progress
+              value={usage ? Math.min((usage.storageUsed / tier.storageQuotaBytes) * 100, 100) : 0}
+              className="h-2 bg-gray-100"
+            />
+          </div>
+          <UpgradeHint
+            isAllowed={limits => limits.dailyGenerations > tier.dailyGenerations}
+            message={limits => `Upgrade to ${limits.name} for higher limits`}
+          />
+        </div>
       </CardContent>
     </Card>
   );
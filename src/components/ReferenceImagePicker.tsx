@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, ImagePlus, Loader2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Slider } from '@/components/ui/slider';
+import { GeneratedImage } from '@/types/database';
+import { useImageHistory } from '@/hooks/use-images';
+import { MAX_STRENGTH, MIN_STRENGTH } from '@/lib/generation';
+import { fetchImageBlob } from '@/lib/download';
+
+export type ReferenceImage = {
+  previewUrl: string;
+  // File name or prompt, shown next to the preview
+  label: string;
+  // Null when the reference is already in the bucket, e.g. remixing an image made from one
+  blob: Blob | null;
+  storagePath: string | null;
+};
+
+interface ReferenceImagePickerProps {
+  value: ReferenceImage | null;
+  onChange: (value: ReferenceImage | null) => void;
+  strength: number;
+  onStrengthChange: (strength: number) => void;
+  // Whether the active provider can generate from a reference image
+  isSupported: boolean;
+  // Picking from history needs an account
+  canPickFromHistory?: boolean;
+  disabled?: boolean;
+}
+
+const thumbnailUrl = (image: GeneratedImage) =>
+  image.thumbnailUrl ?? image.imageUrl;
+
+const HistoryPickerDialog: React.FC<{
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPick: (image: GeneratedImage) => void;
+}> = ({ open, onOpenChange, onPick }) => {
+  const { images, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useImageHistory();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Choose a reference image</DialogTitle>
+          <DialogDescription>The new images will start from the one you pick.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="animate-spin text-imaginate-purple" size={24} />
+          </div>
+        ) : images.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">You don't have any images yet.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 pr-3">
+              {images.map(image => (
+                <button
+                  key={image.id}
+                  type="button"
+                  title={image.prompt}
+                  onClick={() => onPick(image)}
+                  className="overflow-hidden rounded-md bg-gray-100 hover:ring-2 hover:ring-imaginate-purple focus:outline-none focus-visible:ring-2 focus-visible:ring-imaginate-purple"
+                >
+                  <img
+                    src={thumbnailUrl(image)}
+                    alt={image.prompt}
+                    loading="lazy"
+                    className="w-full h-full object-cover aspect-square"
+                  />
+                </button>
+              ))}
+            </div>
+            {hasNextPage && (
+              <div className="flex justify-center pt-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Reference image and strength for image-to-image generation
+const ReferenceImagePicker: React.FC<ReferenceImagePickerProps> = ({
+  value,
+  onChange,
+  strength,
+  onStrengthChange,
+  isSupported,
+  canPickFromHistory = false,
+  disabled = false,
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+  const previewUrl = value?.previewUrl;
+
+  // Uploads are previewed through an object URL, let it go once replaced
+  useEffect(() => () => {
+    if (previewUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(previewUrl);
+    }
+  }, [previewUrl]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file.');
+      return;
+    }
+    onChange({ previewUrl: URL.createObjectURL(file), label: file.name, blob: file, storagePath: null });
+  };
+
+  const handlePick = async (image: GeneratedImage) => {
+    setHistoryOpen(false);
+    setIsFetching(true);
+    try {
+      const blob = await fetchImageBlob(image.imageUrl);
+      onChange({ previewUrl: thumbnailUrl(image), label: image.prompt, blob, storagePath: null });
+    } catch (error) {
+      console.error('Error loading reference image:', error);
+      toast.error('Failed to load that image.');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  if (!isSupported) {
+    return (
+      <p className="text-xs text-gray-500">
+        The current image provider can't generate from a reference image.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {value ? (
+        <div className="flex items-center gap-3 rounded-md border bg-gray-50 p-2">
+          <img src={value.previewUrl} alt="" className="h-14 w-14 rounded object-cover" />
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="truncate text-sm text-imaginate-gray" title={value.label}>
+                {value.label}
+              </p>
+              <span className="text-xs text-gray-500 shrink-0">Strength {strength.toFixed(2)}</span>
+            </div>
+            <Slider
+              aria-label="Strength"
+              min={MIN_STRENGTH}
+              max={MAX_STRENGTH}
+              step={0.05}
+              value={[strength]}
+              onValueChange={([next]) => onStrengthChange(next)}
+              disabled={disabled}
+            />
+            <p className="text-xs text-gray-500">Lower keeps closer to the reference</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            aria-label="Remove reference image"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="flex items-center text-sm text-imaginate-gray mr-1">
+            <ImagePlus size={16} className="mr-2" />
+            Reference image
+          </Label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+            disabled={disabled || isFetching}
+          >
+            <Upload size={14} className="mr-2" />
+            Upload
+          </Button>
+          {canPickFromHistory && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setHistoryOpen(true)}
+              disabled={disabled || isFetching}
+            >
+              {isFetching ? <Loader2 size={14} className="mr-2 animate-spin" /> : <History size={14} className="mr-2" />}
+              Choose from history
+            </Button>
+          )}
+        </div>
+      )}
+
+      {canPickFromHistory && (
+        <HistoryPickerDialog open={historyOpen} onOpenChange={setHistoryOpen} onPick={handlePick} />
+      )}
+    </div>
+  );
+};
+
+export default ReferenceImagePicker;
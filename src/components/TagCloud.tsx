@@ -0,0 +1,59 @@
+import React from 'react';
+import { useTagCounts } from '@/hooks/use-tags';
+
+const MAX_TAGS = 40;
+// Font sizes from the least to the most used tag
+const SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+interface TagCloudProps {
+  selected: string | null;
+  onSelect: (tag: string | null) => void;
+}
+
+// The most used tags, sized by how many images have them. Picking the
+// selected tag again clears it.
+const TagCloud: React.FC<TagCloudProps> = ({ selected, onSelect }) => {
+  const { data: tagCounts = [] } = useTagCounts();
+  if (tagCounts.length === 0) return null;
+
+  const shown = tagCounts.slice(0, MAX_TAGS);
+  // Keep the selected tag visible even when it isn't among the most used
+  const selectedCount = tagCounts.find(({ tag }) => tag === selected);
+  if (selectedCount && !shown.includes(selectedCount)) {
+    shown.push(selectedCount);
+  }
+
+  const max = Math.max(...shown.map(({ count }) => count));
+  const min = Math.min(...shown.map(({ count }) => count));
+  const sizeClass = (count: number) => {
+    if (max === min) return SIZE_CLASSES[1];
+    // Log scale, a few heavily used tags shouldn't shrink the rest to nothing
+    const weight = (Math.log(count) - Math.log(min)) / (Math.log(max) - Math.log(min));
+    return SIZE_CLASSES[Math.round(weight * (SIZE_CLASSES.length - 1))];
+  };
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1 mb-6" aria-label="Tags">
+      {shown
+        .sort((a, b) => a.tag.localeCompare(b.tag))
+        .map(({ tag, count }) => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onSelect(tag === selected ? null : tag)}
+            className={`${sizeClass(count)} transition-colors ${
+              tag === selected
+                ? 'text-imaginate-purple font-semibold'
+                : 'text-gray-600 hover:text-imaginate-purple'
+            }`}
+            aria-pressed={tag === selected}
+          >
+            {tag}
+            <span className="ml-0.5 text-xs text-gray-400">{count}</span>
+          </button>
+        ))}
+    </div>
+  );
+};
+
+export default TagCloud;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { GeneratedImage } from '@/types/database';
+import { useAddTags, useRemoveTags } from '@/hooks/use-tags';
+import { extractPromptTags, normalizeTag } from '@/lib/tags';
+
+interface TagEditorDialogProps {
+  image: GeneratedImage;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TagEditorDialog: React.FC<TagEditorDialogProps> = ({ image, open, onOpenChange }) => {
+  const [input, setInput] = useState('');
+  const addTags = useAddTags();
+  const removeTags = useRemoveTags();
+  const suggestions = extractPromptTags(image.prompt).filter(tag => !image.tags.includes(tag));
+
+  const add = (tags: string[]) => {
+    const newTags = tags.filter(tag => !image.tags.includes(tag));
+    if (newTags.length > 0) {
+      addTags.mutate({ imageIds: [image.id], tags: newTags });
+    }
+  };
+
+  // Several tags can be entered at once, separated by commas
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    add(input.split(',').map(normalizeTag).filter((tag): tag is string => !!tag));
+    setInput('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription className="line-clamp-2">"{image.prompt}"</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2 min-h-6">
+          {image.tags.length > 0 ? image.tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTags.mutate({ imageIds: [image.id], tags: [tag] })}
+                className="rounded-full p-0.5 hover:bg-gray-300"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X size={12} />
+              </button>
+            </Badge>
+          )) : (
+            <p className="text-sm text-gray-500">No tags yet.</p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Add tags, separated by commas"
+            aria-label="New tags"
+          />
+          <Button type="submit" disabled={!input.trim()}>
+            Add
+          </Button>
+        </form>
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Suggested from the prompt</p>
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map(tag => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="cursor-pointer gap-1 hover:bg-imaginate-purple/10"
+                  onClick={() => add([tag])}
+                >
+                  <Plus size={12} />
+                  {tag}
+                </Badge>
+              ))}
+              {suggestions.length > 1 && (
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => add(suggestions)}>
+                  Add all
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagEditorDialog;
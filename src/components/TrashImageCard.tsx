@@ -0,0 +1,90 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { GeneratedImage } from '@/types/database';
+import { usePurgeImages, useRestoreImage } from '@/hooks/use-images';
+import { daysUntilPurge } from '@/lib/storage';
+
+interface TrashImageCardProps {
+  image: GeneratedImage;
+}
+
+const TrashImageCard: React.FC<TrashImageCardProps> = ({ image }) => {
+  const restoreImage = useRestoreImage();
+  const purgeImages = usePurgeImages();
+  const daysLeft = image.deletedAt ? daysUntilPurge(image.deletedAt) : null;
+
+  return (
+    <Card className="overflow-hidden h-full flex flex-col">
+      <div className="aspect-square bg-gray-100">
+        <img
+          src={image.thumbnailUrl ?? image.imageUrl}
+          alt={image.prompt}
+          className="w-full h-full object-cover opacity-70"
+          loading="lazy"
+        />
+      </div>
+
+      <div className="p-3 flex flex-col flex-grow">
+        <h3 className="font-medium text-sm line-clamp-2 flex-grow">
+          "{image.prompt}"
+        </h3>
+        {daysLeft !== null && (
+          <p className="text-xs text-gray-500 mt-2">
+            {daysLeft === 0 ? 'Deleted permanently today' : `Deleted permanently in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+          </p>
+        )}
+        <div className="flex justify-between items-center mt-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-imaginate-purple hover:bg-imaginate-purple/10 h-8 px-2"
+            onClick={() => restoreImage.mutate(image.id)}
+          >
+            <RotateCcw size={14} className="mr-1" />
+            Restore
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-red-500 hover:bg-red-50 h-8 px-2">
+                <Trash2 size={14} className="mr-1" />
+                Delete
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this image permanently?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This action cannot be undone. The image and its files will be removed.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => purgeImages.mutate([image.id])}
+                  className="bg-red-500 hover:bg-red-600"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default TrashImageCard;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { TierLimits, upgradeTierFor } from '@/lib/tiers';
+import { cn } from '@/lib/utils';
+
+interface UpgradeHintProps {
+  // Whether a tier lifts the limit being hinted at
+  isAllowed: (tier: TierLimits) => boolean;
+  message?: (tier: TierLimits) => string;
+  className?: string;
+}
+
+// Points at the cheapest plan that unlocks an option the current plan doesn't have
+const UpgradeHint: React.FC<UpgradeHintProps> = ({ isAllowed, message, className }) => {
+  const tier = upgradeTierFor(isAllowed);
+  if (!tier) return null;
+
+  return (
+    <p className={cn('flex items-center text-xs text-imaginate-purple', className)}>
+      <Sparkles size={12} className="mr-1 shrink-0" />
+      {message ? message(tier) : `Available on ${tier.name}`}
+    </p>
+  );
+};
+
+export default UpgradeHint;
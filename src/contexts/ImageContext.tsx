@@ -1,24 +1,124 @@
 
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { GeneratedImage, mapDbImageToImage } from '@/types/database';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  GeneratedImage,
+  GenerationJob,
+  isJobActive,
+  isUnsavedImage,
+  mapDbImageToImage,
+  mapDbJobToJob,
+} from '@/types/database';
+import {
+  GenerationResult,
+  ImageProvider as GenerationProvider,
+  getActiveProvider,
+  getProvider,
+  getUpscaleProvider,
+} from '@/lib/providers';
+import {
+  GenerationSettings,
+  MAX_UPSCALE_DIMENSION,
+  batchSeeds,
+  fitDimensions,
+  imageGenerationSettings,
+  resolveGenerationSettings,
+} from '@/lib/generation';
+import { creditCostForImage, formatCredits, isInsufficientCreditsError } from '@/lib/credits';
+import { fetchImageBlob } from '@/lib/download';
+import { resolveTier, tierLimitMessage, tierLimitViolation } from '@/lib/tiers';
+import {
+  createThumbnail,
+  downloadStorageFile,
+  imageBucket,
+  isSourceImagePath,
+  storedImageUrl,
+  uploadSourceImage,
+  withImageUrls,
+} from '@/lib/storage';
+import { extractPromptTags } from '@/lib/tags';
+import {
+  addImagesToHistory,
+  fetchImagesByIds,
+  imageKeys,
+  removeImagesFromHistory,
+  useToggleFavorite,
+} from '@/hooks/use-images';
+import { tagImages } from '@/hooks/use-tags';
+
+// How many recent jobs to keep track of
+const RECENT_JOBS_LIMIT = 20;
+// Fallback polling in case Realtime is unavailable
+const JOB_POLL_INTERVAL_MS = 3000;
+// Browser-run jobs that stopped reporting for this long were interrupted (e.g. tab closed)
+const STALE_CLIENT_JOB_MS = 2 * 60 * 1000;
+// Give up waiting on a job after this long, the database fails it soon after
+// (see fail_stale_generation_jobs)
+const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Status changes a user can make to their own jobs
+type JobTransition =
+  | { status: 'running' }
+  | { status: 'failed'; error: string }
+  | { status: 'cancelled' };
+
+// Settings for a single image; batches are split into one set per variation
+type VariationParams = Omit<ReturnType<typeof resolveGenerationSettings>, 'count'>;
+
+export type GenerateOptions = {
+  // Recorded on the new images when regenerating or remixing an existing one
+  parentImageId?: string | null;
+  // Reference image for image-to-image, either picked in the generator or
+  // already in the bucket when regenerating an image that had one
+  sourceImage?: Blob | null;
+  sourceImagePath?: string | null;
+  // Inpainting mask over the reference image, given the same two ways
+  maskImage?: Blob | null;
+  maskImagePath?: string | null;
+};
+
+// Reference image (and inpainting mask) for a generation, the paths are null
+// when they aren't saved to the account
+type SourceImage = {
+  blob: Blob;
+  path: string | null;
+  mask: Blob | null;
+  maskPath: string | null;
+};
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
 
 type ImageContextType = {
   generatedImages: GeneratedImage[];
   isGenerating: boolean;
-  generateImage: (prompt: string) => Promise<GeneratedImage | null>;
-  history: GeneratedImage[];
-  clearHistory: () => void;
+  generateImage: (
+    prompt: string,
+    settings?: Partial<GenerationSettings>,
+    options?: GenerateOptions
+  ) => Promise<GeneratedImage[]>;
+  regenerateImage: (image: GeneratedImage) => Promise<GeneratedImage[]>;
+  upscaleImage: (image: GeneratedImage, scale: number) => Promise<GeneratedImage | null>;
+  jobs: GenerationJob[];
+  activeJob: GenerationJob | null;
+  cancelGeneration: (jobId?: string) => Promise<void>;
+  toggleFavorite: (image: GeneratedImage) => void;
 };
 
 const ImageContext = createContext<ImageContextType>({
   generatedImages: [],
   isGenerating: false,
-  generateImage: async () => null,
-  history: [],
-  clearHistory: () => {},
+  generateImage: async () => [],
+  regenerateImage: async () => [],
+  upscaleImage: async () => null,
+  jobs: [],
+  activeJob: null,
+  cancelGeneration: async () => {},
+  toggleFavorite: () => {},
 });
 
 export const useImage = () => useContext(ImageContext);
@@ -26,184 +126,784 @@ export const useImage = () => useContext(ImageContext);
 export const ImageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [history, setHistory] = useState<GeneratedImage[]>([]);
-  const { user, isAuthenticated } = useAuth();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const jobWaiters = useRef(new Map<string, (job: GenerationJob) => void>());
+  // Abort controllers for the generation in progress and for each job this tab is running
+  const generationController = useRef<AbortController | null>(null);
+  const jobControllers = useRef(new Map<string, AbortController>());
+  const { user, isAuthenticated, refreshUser } = useAuth();
+  const queryClient = useQueryClient();
+  const favoriteMutation = useToggleFavorite();
+
+  // Merge a job update into local state and wake up anyone waiting on it
+  const applyJobUpdate = useCallback((job: GenerationJob) => {
+    setJobs(prev => {
+      const others = prev.filter(item => item.id !== job.id);
+      return [job, ...others]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, RECENT_JOBS_LIMIT);
+    });
+
+    // Stop local work for jobs cancelled here or in another tab
+    if (job.status === 'cancelled') {
+      jobControllers.current.get(job.id)?.abort();
+    }
 
-  // Load history from Supabase when user is authenticated
+    if (!isJobActive(job)) {
+      const waiter = jobWaiters.current.get(job.id);
+      if (waiter) {
+        waiter(job);
+      }
+    }
+  }, []);
+
+  // Load recent jobs and subscribe to their changes so progress is shared across tabs
   useEffect(() => {
-    if (isAuthenticated && user) {
-      loadUserImages();
-    } else {
-      setHistory([]);
+    if (!isAuthenticated || !user?.id) {
+      setJobs([]);
+      return;
     }
-  }, [isAuthenticated, user]);
 
-  // Load user's images from Supabase
-  const loadUserImages = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('images')
-        .select('*')
-        .order('created_at', { ascending: false });
+    const loadJobs = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('generation_jobs')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(RECENT_JOBS_LIMIT);
+
+        if (error) {
+          throw error;
+        }
 
-      if (error) {
-        throw error;
+        const loadedJobs = (data || []).map(mapDbJobToJob);
+        setJobs(loadedJobs);
+
+        // Jobs rendered in a browser tab can't outlive it, fail the ones left behind
+        const staleJobs = loadedJobs.filter(job =>
+          isJobActive(job) &&
+          getProvider(job.provider)?.capabilities.runtime === 'client' &&
+          Date.now() - new Date(job.updatedAt).getTime() > STALE_CLIENT_JOB_MS
+        );
+        for (const job of staleJobs) {
+          await supabase.rpc('fail_generation_job', { p_job_id: job.id, p_error: 'Interrupted before completion' });
+        }
+      } catch (error) {
+        console.error('Error loading generation jobs:', error);
       }
+    };
+
+    loadJobs();
+
+    const channel = supabase
+      .channel(`generation-jobs-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'generation_jobs',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            setJobs(prev => prev.filter(job => job.id !== payload.old.id));
+            return;
+          }
+
+          const job = mapDbJobToJob(payload.new as Tables<'generation_jobs'>);
+          applyJobUpdate(job);
+
+          // Pick up images finished by the worker or by another tab
+          if (job.status === 'succeeded') {
+            queryClient.invalidateQueries({ queryKey: imageKeys.histories(user.id) });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isAuthenticated, user?.id, applyJobUpdate, queryClient]);
+
+  // Resolves once the job reaches a final state, rejects if it takes too long
+  const waitForJob = (jobId: string) => new Promise<GenerationJob>((resolve, reject) => {
+    const refreshJob = async () => {
+      const { data } = await supabase
+        .from('generation_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single();
 
       if (data) {
-        const formattedImages: GeneratedImage[] = await Promise.all(
-          data.map(async (item) => {
-            // Map database item to our model
-            return mapDbImageToImage(item);
-          })
-        );
+        applyJobUpdate(mapDbJobToJob(data));
+      }
+    };
 
-        setHistory(formattedImages);
+    const poll = setInterval(refreshJob, JOB_POLL_INTERVAL_MS);
+    const deadline = setTimeout(async () => {
+      await refreshJob();
+      if (jobWaiters.current.has(jobId)) {
+        clearInterval(poll);
+        jobWaiters.current.delete(jobId);
+        reject(new Error('Generation timed out'));
       }
+    }, JOB_TIMEOUT_MS);
+
+    jobWaiters.current.set(jobId, (job) => {
+      clearInterval(poll);
+      clearTimeout(deadline);
+      jobWaiters.current.delete(jobId);
+      resolve(job);
+    });
+  });
+
+  // Browser-run jobs report their progress on the row
+  const updateJobProgress = async (jobId: string, progress: number) => {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .update({ progress })
+      .eq('id', jobId)
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error(`Error updating job ${jobId}:`, error);
+      return;
+    }
+
+    applyJobUpdate(mapDbJobToJob(data));
+  };
+
+  // Status changes go through database functions, which only allow the ones a
+  // user may make and refund credits for failed and cancelled jobs.
+  // Returns false if the change could not be made.
+  const transitionJob = async (jobId: string, transition: JobTransition) => {
+    const { data, error } = transition.status === 'running'
+      ? await supabase.rpc('start_generation_job', { p_job_id: jobId })
+      : transition.status === 'failed'
+        ? await supabase.rpc('fail_generation_job', { p_job_id: jobId, p_error: transition.error })
+        : await supabase.rpc('cancel_generation_job', { p_job_id: jobId });
+
+    if (error) {
+      console.error(`Error updating job ${jobId}:`, error);
+      return false;
+    }
+
+    if (data?.[0]) {
+      applyJobUpdate(mapDbJobToJob(data[0]));
+    }
+    return true;
+  };
+
+  // Upload a generated image to storage and record it in the images table,
+  // which marks the job that paid for it as succeeded
+  const saveGeneratedImage = async (
+    prompt: string,
+    provider: GenerationProvider,
+    result: GenerationResult,
+    params: VariationParams,
+    job: GenerationJob,
+    source: SourceImage | null,
+    signal?: AbortSignal
+  ): Promise<GeneratedImage> => {
+    const timestamp = Date.now();
+
+    // Create a file from the generated blob
+    const mimeType = result.blob.type || provider.capabilities.outputMimeType;
+    const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+    const file = new File([result.blob], `image-${timestamp}.${extension}`, { type: mimeType });
+    
+    // Upload to Supabase Storage
+    const filePath = `${user.id}/${timestamp}-${file.name}`;
+    const bucket = imageBucket(params.isPrivate);
+    const { error: uploadError } = await supabase
+      .storage
+      .from(bucket)
+      .upload(filePath, file);
+      
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    // A missing thumbnail only means grids fall back to the full image
+    let thumbnail: { path: string; size: number } | null = null;
+    try {
+      const thumbnailBlob = await createThumbnail(result.blob);
+      const thumbnailPath = `${user.id}/thumbnails/${timestamp}-image.webp`;
+      const { error: thumbnailError } = await supabase
+        .storage
+        .from(bucket)
+        .upload(thumbnailPath, thumbnailBlob, { contentType: 'image/webp' });
+
+      if (thumbnailError) {
+        throw thumbnailError;
+      }
+      thumbnail = { path: thumbnailPath, size: thumbnailBlob.size };
     } catch (error) {
-      console.error('Error loading user images:', error);
-      toast.error('Failed to load your images.');
+      console.error('Error creating thumbnail:', error);
+    }
+
+    // Storage uploads can't be aborted mid-flight, so undo the upload instead
+    const uploadedPaths = thumbnail ? [filePath, thumbnail.path] : [filePath];
+    const removeUpload = () => supabase.storage.from(bucket).remove(uploadedPaths);
+    if (signal?.aborted) {
+      await removeUpload();
+      signal.throwIfAborted();
+    }
+    
+    // Save metadata to 'images' table
+    const { data: imageData, error: imageError } = await supabase
+      .from('images')
+      .insert({
+        prompt,
+        image_url: storedImageUrl(filePath, params.isPrivate),
+        storage_path: filePath,
+        thumbnail_path: thumbnail?.path ?? null,
+        user_id: user.id,
+        width: result.width,
+        height: result.height,
+        provider: provider.id,
+        model: result.model,
+        aspect_ratio: params.aspectRatio,
+        seed: params.seed,
+        steps: params.steps,
+        guidance_scale: params.guidanceScale,
+        negative_prompt: params.negativePrompt || null,
+        batch_id: job.batchId,
+        parent_image_id: job.parentImageId,
+        source_image_path: source?.path ?? null,
+        strength: source ? params.strength : null,
+        mask_image_path: source?.maskPath ?? null,
+        is_private: params.isPrivate,
+        file_size: file.size + (thumbnail?.size ?? 0),
+        generation_job_id: job.id,
+      })
+      .select('*')
+      .single();
+
+    // Once saved the job has succeeded, a cancellation arriving now is too late
+    if (imageError) {
+      await removeUpload();
+      signal?.throwIfAborted();
+      throw imageError;
     }
+
+    // Missing tags only make the image harder to find, not worth failing over
+    let tags = extractPromptTags(prompt);
+    try {
+      await tagImages(user.id, [imageData.id], tags, 'auto');
+    } catch (error) {
+      console.error('Error tagging image:', error);
+      tags = [];
+    }
+    
+    const [image] = await withImageUrls([mapDbImageToImage(imageData)]);
+    return { ...image, tags: [...tags].sort() };
+  };
+
+  // Build the in-memory image shown before (or instead of) saving to the account
+  const toUnsavedImage = (
+    prompt: string,
+    provider: GenerationProvider,
+    result: GenerationResult,
+    params: VariationParams,
+    batchId: string | null,
+    parentImageId: string | null,
+    source: SourceImage | null
+  ): GeneratedImage => ({
+    id: crypto.randomUUID(),
+    userId: user?.id || '',
+    prompt,
+    imageUrl: URL.createObjectURL(result.blob),
+    cloudinaryPublicId: null,
+    width: result.width,
+    height: result.height,
+    provider: provider.id,
+    model: result.model,
+    aspectRatio: params.aspectRatio,
+    seed: params.seed,
+    steps: params.steps,
+    guidanceScale: params.guidanceScale,
+    negativePrompt: params.negativePrompt || null,
+    batchId,
+    parentImageId,
+    sourceImagePath: source?.path ?? null,
+    strength: source ? params.strength : null,
+    maskImagePath: source?.maskPath ?? null,
+    editStack: null,
+    isPrivate: params.isPrivate,
+    isFavorite: false,
+    tags: [],
+    fileSize: result.blob.size,
+    storagePath: null,
+    thumbnailPath: null,
+    thumbnailUrl: null,
+    sourceImageUrl: null,
+    deletedAt: null,
+    createdAt: new Date().toISOString(),
+  });
+
+  const providerRequest = (
+    prompt: string,
+    provider: GenerationProvider,
+    params: VariationParams,
+    signal?: AbortSignal,
+    source: SourceImage | null = null
+  ) => ({
+    prompt,
+    width: params.width,
+    height: params.height,
+    seed: params.seed,
+    steps: params.steps,
+    guidanceScale: params.guidanceScale,
+    negativePrompt: params.negativePrompt || undefined,
+    model: provider.defaultModel,
+    ...(source ? { sourceImage: source.blob, strength: params.strength, mask: source.mask ?? undefined } : {}),
+    signal,
+  });
+
+  // Queued jobs for server providers are picked up by the generation-worker edge function
+  const runServerJob = async (job: GenerationJob): Promise<GeneratedImage> => {
+    const completion = waitForJob(job.id);
+
+    supabase.functions
+      .invoke('generation-worker', { body: { jobId: job.id } })
+      .then(async ({ error }) => {
+        if (!error) return;
+        console.error('Error invoking generation worker:', error);
+
+        // Only fails the job if the worker never claimed it
+        await transitionJob(job.id, { status: 'failed', error: 'Could not reach the generation worker' });
+      });
+
+    const finishedJob = await completion;
+
+    if (finishedJob.status === 'cancelled') {
+      throw new DOMException('Generation cancelled', 'AbortError');
+    }
+
+    if (finishedJob.status !== 'succeeded' || !finishedJob.imageId) {
+      throw new Error(finishedJob.error || `Generation ${finishedJob.status}`);
+    }
+
+    const [image] = await fetchImagesByIds([finishedJob.imageId]);
+    if (!image) {
+      throw new Error('Generated image could not be found');
+    }
+
+    addImagesToHistory(queryClient, user.id, [image]);
+    return image;
   };
 
-  const generateImage = async (prompt: string): Promise<GeneratedImage | null> => {
+  // Browser-only providers are rendered here, reporting progress on the job row.
+  // Upscale jobs pass their own render step.
+  const runClientJob = async (
+    job: GenerationJob,
+    prompt: string,
+    provider: GenerationProvider,
+    params: VariationParams,
+    source: SourceImage | null,
+    signal: AbortSignal,
+    render = () => provider.generate(providerRequest(prompt, provider, params, signal, source))
+  ): Promise<GeneratedImage> => {
+    await transitionJob(job.id, { status: 'running' });
+    await updateJobProgress(job.id, 10);
+
+    let result: GenerationResult;
+    try {
+      result = await render();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      await transitionJob(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Generation failed',
+      });
+      throw error;
+    }
+
+    await updateJobProgress(job.id, 60);
+
+    // Show the image in the history right away, swapped for the saved row once uploaded
+    const pendingImage = toUnsavedImage(prompt, provider, result, params, job.batchId, job.parentImageId, source);
+    addImagesToHistory(queryClient, user.id, [pendingImage]);
+
+    try {
+      // Saving the image completes the job
+      const image = await saveGeneratedImage(prompt, provider, result, params, job, source, signal);
+      removeImagesFromHistory(queryClient, user.id, [pendingImage.id]);
+      addImagesToHistory(queryClient, user.id, [image]);
+      return image;
+    } catch (error) {
+      removeImagesFromHistory(queryClient, user.id, [pendingImage.id]);
+      if (isAbortError(error)) throw error;
+      console.error('Error saving image to Supabase:', error);
+      const limitMessage = tierLimitMessage(error);
+      await transitionJob(job.id, {
+        status: 'failed',
+        error: limitMessage || 'Image generated but could not be saved',
+      });
+      toast.error(limitMessage
+        ? `Image generated but not saved: ${limitMessage}`
+        : 'Image generated but could not be saved to your account.');
+      return pendingImage;
+    }
+  };
+
+  const generateImage = async (
+    prompt: string,
+    settings: Partial<GenerationSettings> = {},
+    {
+      parentImageId = null,
+      sourceImage = null,
+      sourceImagePath = null,
+      maskImage = null,
+      maskImagePath = null,
+    }: GenerateOptions = {}
+  ): Promise<GeneratedImage[]> => {
     if (!prompt.trim()) {
       toast.error('Please enter a prompt.');
-      return null;
+      return [];
     }
 
     setIsGenerating(true);
+    const controller = new AbortController();
+    generationController.current = controller;
+    const jobIds: string[] = [];
 
     try {
-      // Generate AI image based on prompt
-      // We'll use a real AI image generation API for more accurate results
-      const timestamp = Date.now();
-      console.log("Generating image for prompt:", prompt);
-      
-      // Generate a more meaningful image based on the prompt
-      // For demo purposes, we'll use a more contextually relevant service
-      const imageUrl = `https://source.unsplash.com/featured/?${encodeURIComponent(prompt)}`;
-      
-      // Wait to ensure the image is generated
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const provider = getActiveProvider();
+      const { count, ...requested } = resolveGenerationSettings(settings);
+      // Sizes past what the provider makes are scaled down up front so the saved size is the real one
+      const size = fitDimensions(
+        requested.width,
+        requested.height,
+        provider.capabilities.maxWidth,
+        provider.capabilities.maxHeight
+      );
+      const params = { ...requested, ...size };
+      const batchId = crypto.randomUUID();
+      const variations = batchSeeds(params.seed, count).map(seed => ({ ...params, seed }));
+
+      // Same limits the database applies when the jobs are queued, guests' images aren't saved
+      const violation = isAuthenticated && user
+        ? tierLimitViolation({ ...params, count }, resolveTier(user.subscriptionTier))
+        : null;
+      if (violation) {
+        toast.error(violation);
+        return [];
+      }
+      if ((sourceImage || sourceImagePath) && !provider.capabilities.imageToImage) {
+        toast.error(`${provider.name} can't generate from a reference image.`);
+        return [];
+      }
+      if ((maskImage || maskImagePath) && !provider.capabilities.inpainting) {
+        toast.error(`${provider.name} can't repaint part of an image.`);
+        return [];
+      }
+      if (size.width !== requested.width || size.height !== requested.height) {
+        toast.info(`${provider.name} generates up to ${provider.capabilities.maxWidth}×${provider.capabilities.maxHeight}, using ${size.width}×${size.height}.`);
+      }
+      console.log(`Generating ${count} image(s) with ${provider.id} for prompt:`, prompt, params);
+
+      // The images made from a reference point at a copy under the user's sources folder
+      let source: SourceImage | null = null;
+      const sourceBlob = sourceImage ?? (sourceImagePath ? await downloadStorageFile(sourceImagePath) : null);
+      if (sourceBlob) {
+        const maskBlob = maskImage ?? (maskImagePath ? await downloadStorageFile(maskImagePath) : null);
+        source = { blob: sourceBlob, path: null, mask: maskBlob, maskPath: null };
+        if (isAuthenticated && user) {
+          const keepSourceFile = (blob: Blob, path: string | null, name: string) =>
+            path && isSourceImagePath(user.id, path) ? Promise.resolve(path) : uploadSourceImage(user.id, blob, name);
+          source.path = await keepSourceFile(sourceBlob, sourceImagePath, 'reference');
+          source.maskPath = maskBlob ? await keepSourceFile(maskBlob, maskImagePath, 'mask') : null;
+        }
+      }
+
+      let results: PromiseSettledResult<GeneratedImage>[];
 
-      const newImageData = {
-        id: timestamp.toString(),
-        userId: user?.id || '',
-        prompt,
-        imageUrl,
-        cloudinaryPublicId: null,
-        width: 800,
-        height: 800,
-        createdAt: new Date().toISOString(),
-      };
-      
-      let newImage: GeneratedImage = newImageData;
-      
-      // Save to Supabase if user is logged in
       if (isAuthenticated && user) {
-        try {
-          // First, fetch the image as a Blob
-          const response = await fetch(imageUrl);
-          const blob = await response.blob();
-          
-          if (!blob || blob.size === 0) {
-            throw new Error("Empty image blob received");
-          }
-          
-          // Create a file from the blob
-          const file = new File([blob], `image-${timestamp}.jpg`, { type: 'image/jpeg' });
-          
-          // Upload to Supabase Storage
-          const filePath = `${user.id}/${timestamp}-${file.name}`;
-          const { data: uploadData, error: uploadError } = await supabase
-            .storage
-            .from('images')
-            .upload(filePath, file);
-            
-          if (uploadError) {
-            throw uploadError;
+        // Check the balance up front, the database enforces it again when queueing
+        const cost = variations.reduce(
+          (total, variation) => total + provider.estimateCost(providerRequest(prompt, provider, variation)),
+          0
+        );
+        const balance = user.credits ?? 0;
+        if (cost > balance) {
+          toast.error(`Not enough credits: this generation costs ${formatCredits(cost)} and you have ${formatCredits(balance)}.`);
+          return [];
+        }
+
+        // Signed-in generations go through the job queue, one job per variation
+        const { data: jobData, error: jobError } = await supabase
+          .from('generation_jobs')
+          .insert(variations.map(variation => ({
+            user_id: user.id,
+            prompt,
+            provider: provider.id,
+            model: provider.defaultModel,
+            runtime: provider.capabilities.runtime,
+            params: variation,
+            batch_id: batchId,
+            parent_image_id: parentImageId,
+            source_image_path: source?.path ?? null,
+            mask_image_path: source?.maskPath ?? null,
+          })))
+          .select('*');
+
+        if (jobError) {
+          if (isInsufficientCreditsError(jobError)) {
+            toast.error('Not enough credits for this generation.');
+            await refreshUser();
+            return [];
           }
-          
-          // Get public URL for the image
-          const { data: publicUrlData } = supabase
-            .storage
-            .from('images')
-            .getPublicUrl(filePath);
-          
-          // Save metadata to 'images' table
-          const { data: imageData, error: imageError } = await supabase
-            .from('images')
-            .insert({
-              prompt,
-              image_url: publicUrlData.publicUrl,
-              user_id: user.id,
-              width: 800,
-              height: 800
-            })
-            .select('*')
-            .single();
-            
-          if (imageError) {
-            throw imageError;
+          const limitMessage = tierLimitMessage(jobError);
+          if (limitMessage) {
+            toast.error(limitMessage);
+            return [];
           }
-          
-          // Update newImage with Supabase data
-          newImage = mapDbImageToImage(imageData);
-          
-          // Refresh history after adding a new image
-          await loadUserImages();
-        } catch (error) {
-          console.error('Error saving image to Supabase:', error);
-          toast.error('Image generated but could not be saved to your account.');
+          throw jobError;
+        }
+
+        const batchJobs = (jobData || []).map(mapDbJobToJob);
+        for (const job of batchJobs) {
+          // Each job can be cancelled on its own, cancelling the generation stops them all
+          const jobController = new AbortController();
+          controller.signal.addEventListener('abort', () => jobController.abort());
+          jobControllers.current.set(job.id, jobController);
+          jobIds.push(job.id);
+          applyJobUpdate(job);
+        }
+
+        // The user may have cancelled while the jobs were being queued
+        if (controller.signal.aborted) {
+          await Promise.all(batchJobs.map(job => cancelGeneration(job.id)));
+          controller.signal.throwIfAborted();
         }
+
+        results = await Promise.allSettled(batchJobs.map(job => {
+          const variation = job.params as VariationParams;
+          return provider.capabilities.runtime === 'server'
+            ? runServerJob(job)
+            : runClientJob(job, prompt, provider, variation, source, jobControllers.current.get(job.id)!.signal);
+        }));
+
+        // Catch up with anything saved that the optimistic updates missed
+        queryClient.invalidateQueries({ queryKey: imageKeys.histories(user.id) });
+      } else {
+        results = await Promise.allSettled(variations.map(async variation => {
+          const result = await provider.generate(providerRequest(prompt, provider, variation, controller.signal, source));
+          return toUnsavedImage(prompt, provider, result, variation, batchId, parentImageId, source);
+        }));
+      }
+
+      const newImages = results
+        .filter((result): result is PromiseFulfilledResult<GeneratedImage> => result.status === 'fulfilled')
+        .map(result => result.value);
+      const failures = results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .map(result => result.reason);
+
+      if (newImages.length === 0) {
+        throw failures.find(reason => !isAbortError(reason)) || failures[0];
       }
 
-      setGeneratedImages(prev => [newImage, ...prev]);
-      toast.success('Image generated successfully!');
-      return newImage;
+      setGeneratedImages(prev => [...newImages, ...prev]);
+
+      const failedCount = failures.filter(reason => !isAbortError(reason)).length;
+      if (failedCount > 0) {
+        toast.error(`${failedCount} of ${count} variations failed to generate.`);
+      } else {
+        toast.success(newImages.length > 1 ? `${newImages.length} images generated successfully!` : 'Image generated successfully!');
+      }
+      return newImages;
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Image generation cancelled');
+        toast.info('Generation cancelled.');
+        return [];
+      }
       console.error('Error generating image:', error);
-      toast.error('Failed to generate image. Please try again.');
-      return null;
+      toast.error(error instanceof Error ? error.message : 'Failed to generate image. Please try again.');
+      return [];
     } finally {
+      for (const jobId of jobIds) {
+        jobControllers.current.delete(jobId);
+      }
+      // Pick up reserved and refunded credits in case Realtime is unavailable
+      if (jobIds.length > 0) {
+        refreshUser();
+      }
+      if (generationController.current === controller) {
+        generationController.current = null;
+      }
       setIsGenerating(false);
     }
   };
 
-  const clearHistory = async () => {
-    if (isAuthenticated && user) {
-      try {
-        // Delete from images table
-        const { error: deleteError } = await supabase
-          .from('images')
-          .delete()
-          .eq('user_id', user.id);
-          
-        if (deleteError) {
-          throw deleteError;
+  // Same prompt, settings, reference image and mask with a new seed, linked to the original.
+  // Only the owner can read the reference, others regenerate from the prompt alone.
+  const regenerateImage = (image: GeneratedImage) => {
+    const isOwn = !!user && image.userId === user.id;
+    return generateImage(image.prompt, imageGenerationSettings(image), {
+      parentImageId: isUnsavedImage(image) ? null : image.id,
+      sourceImagePath: isOwn ? image.sourceImagePath : null,
+      maskImagePath: isOwn ? image.maskImagePath : null,
+    });
+  };
+
+  // Enlarge an image as a new version of it. Goes through the job queue so it
+  // is charged by output size like a generation.
+  const upscaleImage = async (image: GeneratedImage, scale: number): Promise<GeneratedImage | null> => {
+    if (!isAuthenticated || !user) {
+      toast.error('Sign in to upscale images.');
+      return null;
+    }
+
+    // The 4096px allowance is checked against the saved original's size
+    if (isUnsavedImage(image)) {
+      toast.error('Save the image to your account before upscaling it.');
+      return null;
+    }
+
+    const provider = getUpscaleProvider();
+    const controller = new AbortController();
+    let jobId: string | null = null;
+
+    try {
+      // The file's own size, older rows may not have it recorded
+      const blob = await fetchImageBlob(image.imageUrl);
+      const bitmap = await createImageBitmap(blob);
+      const width = bitmap.width * scale;
+      const height = bitmap.height * scale;
+      bitmap.close();
+
+      if (Math.max(width, height) > MAX_UPSCALE_DIMENSION) {
+        toast.error(`Upscaled images can be up to ${MAX_UPSCALE_DIMENSION}px per side.`);
+        return null;
+      }
+
+      const cost = creditCostForImage(width, height);
+      const balance = user.credits ?? 0;
+      if (cost > balance) {
+        toast.error(`Not enough credits: upscaling costs ${formatCredits(cost)} and you have ${formatCredits(balance)}.`);
+        return null;
+      }
+
+      // Recorded with the original's settings, at the new size
+      const { count: _count, ...settings } = resolveGenerationSettings({
+        ...imageGenerationSettings(image),
+        seed: image.seed,
+      });
+      const params: VariationParams = { ...settings, width, height };
+
+      const { data: jobData, error: jobError } = await supabase
+        .from('generation_jobs')
+        .insert({
+          user_id: user.id,
+          kind: 'upscale',
+          prompt: image.prompt,
+          provider: provider.id,
+          runtime: 'client',
+          params: { ...params, scale },
+          parent_image_id: image.id,
+        })
+        .select('*')
+        .single();
+
+      if (jobError) {
+        if (isInsufficientCreditsError(jobError)) {
+          toast.error('Not enough credits to upscale this image.');
+          await refreshUser();
+          return null;
         }
-        
-        setHistory([]);
-        toast.success('History cleared successfully!');
-      } catch (error) {
-        console.error('Error clearing history:', error);
-        toast.error('Failed to clear history. Please try again.');
+        const limitMessage = tierLimitMessage(jobError);
+        if (limitMessage) {
+          toast.error(limitMessage);
+          return null;
+        }
+        throw jobError;
+      }
+
+      const job = mapDbJobToJob(jobData);
+      jobId = job.id;
+      jobControllers.current.set(job.id, controller);
+      applyJobUpdate(job);
+
+      const upscaled = await runClientJob(
+        job,
+        image.prompt,
+        provider,
+        params,
+        null,
+        controller.signal,
+        () => provider.upscale!({ image: blob, scale, signal: controller.signal })
+      );
+      toast.success(`Upscaled to ${upscaled.width}×${upscaled.height}.`);
+      return upscaled;
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info('Upscaling cancelled.');
+        return null;
+      }
+      console.error('Error upscaling image:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upscale image. Please try again.');
+      return null;
+    } finally {
+      if (jobId) {
+        jobControllers.current.delete(jobId);
+        // Pick up reserved and refunded credits in case Realtime is unavailable
+        refreshUser();
+      }
+    }
+  };
+
+  // Cancel one job, or everything in progress when no job id is given
+  const cancelGeneration = async (jobId?: string) => {
+    if (!jobId) {
+      generationController.current?.abort();
+    }
+
+    const targetJobs = jobs.filter(job => isJobActive(job) && (!jobId || job.id === jobId));
+    const targetIds = jobId ? [jobId] : targetJobs.map(job => job.id);
+
+    for (const id of targetIds) {
+      jobControllers.current.get(id)?.abort();
+
+      // Only jobs that haven't finished yet can be cancelled
+      if (!await transitionJob(id, { status: 'cancelled' })) {
+        toast.error('Failed to cancel generation.');
       }
-    } else {
-      setHistory([]);
-      toast.success('History cleared successfully!');
     }
   };
 
+  // Cached lists update optimistically in the mutation, this session's results here
+  const toggleFavorite = (image: GeneratedImage) => {
+    const isFavorite = !image.isFavorite;
+    const setFavorite = (value: boolean) => setGeneratedImages(prev =>
+      prev.map(item => item.id === image.id ? { ...item, isFavorite: value } : item)
+    );
+
+    setFavorite(isFavorite);
+    favoriteMutation.mutate(
+      { imageId: image.id, isFavorite },
+      { onError: () => setFavorite(!isFavorite) }
+    );
+  };
+
   return (
     <ImageContext.Provider
       value={{
         generatedImages,
-        isGenerating,
+        isGenerating: isGenerating || jobs.some(isJobActive),
         generateImage,
-        history,
-        clearHistory,
+        regenerateImage,
+        upscaleImage,
+        jobs,
+        activeJob: jobs.find(isJobActive) || null,
+        cancelGeneration,
+        toggleFavorite,
       }}
     >
       {children}
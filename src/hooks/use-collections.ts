@@ -0,0 +1,277 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  Collection,
+  GeneratedImage,
+  mapDbCollectionToCollection,
+  mapDbImageToImage,
+} from '@/types/database';
+import { withImageUrls } from '@/lib/storage';
+
+export type CollectionDetail = { collection: Collection; images: GeneratedImage[] };
+
+export const collectionKeys = {
+  all: (userId?: string) => ['collections', userId] as const,
+  list: (userId?: string) => ['collections', userId, 'list'] as const,
+  detail: (userId?: string, collectionId?: string) => ['collections', userId, 'detail', collectionId] as const,
+  // Which collections hold each of the given images
+  memberships: (userId?: string, imageIds: string[] = []) =>
+    ['collections', userId, 'memberships', [...imageIds].sort().join(',')] as const,
+};
+
+const COLLECTION_SELECT = '*, cover:images!collections_cover_image_id_fkey(*), collection_images(count)';
+
+const fetchCollections = async (userId: string): Promise<Collection[]> => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select(COLLECTION_SELECT)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  const collections = (data || []).map(mapDbCollectionToCollection);
+  const covers = await withImageUrls(collections.flatMap(collection => collection.cover ? [collection.cover] : []));
+  return collections.map(collection => ({
+    ...collection,
+    cover: covers.find(cover => cover.id === collection.cover?.id) ?? null,
+  }));
+};
+
+// Null when the collection doesn't exist or belongs to someone else
+const fetchCollection = async (collectionId: string): Promise<CollectionDetail | null> => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select(COLLECTION_SELECT)
+    .eq('id', collectionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('collection_images')
+    .select('position, image:images(*, image_tags(tag))')
+    .eq('collection_id', collectionId)
+    .order('position');
+
+  if (entriesError) {
+    throw entriesError;
+  }
+
+  // Trashed images stay in the collection and come back with a restore
+  const images = await withImageUrls((entries || [])
+    .filter(entry => entry.image && !entry.image.deleted_at)
+    .map(entry => mapDbImageToImage(entry.image)));
+
+  return { collection: mapDbCollectionToCollection(data), images };
+};
+
+export const useCollections = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: collectionKeys.list(user?.id),
+    queryFn: () => fetchCollections(user!.id),
+    enabled: !!user,
+  });
+};
+
+export const useCollection = (collectionId?: string) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: collectionKeys.detail(user?.id, collectionId),
+    queryFn: () => fetchCollection(collectionId!),
+    enabled: !!user && !!collectionId,
+  });
+};
+
+// Collection id -> how many of the images it holds
+export const useCollectionMemberships = (imageIds: string[], enabled = true) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: collectionKeys.memberships(user?.id, imageIds),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('collection_images')
+        .select('collection_id')
+        .in('image_id', imageIds);
+
+      if (error) {
+        throw error;
+      }
+
+      const counts = new Map<string, number>();
+      for (const { collection_id } of data || []) {
+        counts.set(collection_id, (counts.get(collection_id) ?? 0) + 1);
+      }
+      return counts;
+    },
+    enabled: enabled && !!user && imageIds.length > 0,
+  });
+};
+
+// Shared error handling, and a refetch of every collection query once settled
+const useCollectionMutation = <TVariables, TResult>({
+  mutationFn,
+  onSuccess,
+  errorMessage,
+}: {
+  mutationFn: (userId: string, variables: TVariables) => Promise<TResult>;
+  onSuccess?: (result: TResult, variables: TVariables) => void;
+  errorMessage: string;
+}) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => mutationFn(user!.id, variables),
+    onError: (error) => {
+      console.error(errorMessage, error);
+      toast.error(`${errorMessage} Please try again.`);
+    },
+    onSuccess,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: collectionKeys.all(user?.id) }),
+  });
+};
+
+export const useCreateCollection = () =>
+  useCollectionMutation({
+    mutationFn: async (userId, { name, description }: { name: string; description?: string }) => {
+      const { data, error } = await supabase
+        .from('collections')
+        .insert({ user_id: userId, name: name.trim(), description: description?.trim() || null })
+        .select(COLLECTION_SELECT)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      return mapDbCollectionToCollection(data);
+    },
+    errorMessage: 'Failed to create collection.',
+  });
+
+export const useUpdateCollection = () =>
+  useCollectionMutation({
+    mutationFn: async (
+      _userId,
+      { collectionId, ...changes }: {
+        collectionId: string;
+        name?: string;
+        description?: string | null;
+        coverImageId?: string;
+      }
+    ) => {
+      const { error } = await supabase
+        .from('collections')
+        .update({
+          ...(changes.name !== undefined && { name: changes.name.trim() }),
+          ...(changes.description !== undefined && { description: changes.description?.trim() || null }),
+          ...(changes.coverImageId !== undefined && { cover_image_id: changes.coverImageId }),
+        })
+        .eq('id', collectionId);
+
+      if (error) {
+        throw error;
+      }
+    },
+    errorMessage: 'Failed to update collection.',
+  });
+
+// Deletes the collection only, its images stay in the history
+export const useDeleteCollection = () =>
+  useCollectionMutation({
+    mutationFn: async (_userId, collectionId: string) => {
+      const { error } = await supabase
+        .from('collections')
+        .delete()
+        .eq('id', collectionId);
+
+      if (error) {
+        throw error;
+      }
+    },
+    onSuccess: () => toast.success('Collection deleted.'),
+    errorMessage: 'Failed to delete collection.',
+  });
+
+// Images already in the collection keep their place
+export const useAddToCollection = () =>
+  useCollectionMutation({
+    mutationFn: async (_userId, { collectionId, imageIds }: { collectionId: string; imageIds: string[] }) => {
+      const { error } = await supabase
+        .from('collection_images')
+        .upsert(
+          imageIds.map(imageId => ({ collection_id: collectionId, image_id: imageId })),
+          { onConflict: 'collection_id,image_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        throw error;
+      }
+    },
+    errorMessage: 'Failed to add to collection.',
+  });
+
+export const useRemoveFromCollection = () =>
+  useCollectionMutation({
+    mutationFn: async (_userId, { collectionId, imageIds }: { collectionId: string; imageIds: string[] }) => {
+      const { error } = await supabase
+        .from('collection_images')
+        .delete()
+        .eq('collection_id', collectionId)
+        .in('image_id', imageIds);
+
+      if (error) {
+        throw error;
+      }
+    },
+    errorMessage: 'Failed to remove from collection.',
+  });
+
+// Saves a new order, the detail view shows it straight away
+export const useReorderCollection = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ collectionId, imageIds }: { collectionId: string; imageIds: string[] }) => {
+      const { error } = await supabase.rpc('reorder_collection_images', {
+        p_collection_id: collectionId,
+        p_image_ids: imageIds,
+      });
+
+      if (error) {
+        throw error;
+      }
+    },
+    onMutate: async ({ collectionId, imageIds }) => {
+      const queryKey = collectionKeys.detail(user?.id, collectionId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<CollectionDetail | null>(queryKey);
+      if (previous) {
+        const byId = new Map(previous.images.map(image => [image.id, image]));
+        queryClient.setQueryData<CollectionDetail>(queryKey, {
+          ...previous,
+          images: imageIds.flatMap(id => byId.get(id) ?? []),
+        });
+      }
+      return { previous };
+    },
+    onError: (error, { collectionId }, context) => {
+      console.error('Failed to reorder collection.', error);
+      queryClient.setQueryData(collectionKeys.detail(user?.id, collectionId), context?.previous);
+      toast.error('Failed to save the new order. Please try again.');
+    },
+    onSettled: (_data, _error, { collectionId }) =>
+      queryClient.invalidateQueries({ queryKey: collectionKeys.detail(user?.id, collectionId) }),
+  });
+};
@@ -0,0 +1,137 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { GeneratedImage, mapDbImageToImage } from '@/types/database';
+import { IMAGE_SELECT, imageKeys } from '@/hooks/use-images';
+import { withImageUrls } from '@/lib/storage';
+import { extractPromptTags } from '@/lib/tags';
+
+// How far back the "made from" chain is followed
+const LINEAGE_DEPTH = 10;
+const RELATED_LIMIT = 8;
+
+export type ImageLineage = {
+  // Oldest first, ending with the image's direct parent
+  ancestors: GeneratedImage[];
+  // Images made from this one
+  versions: GeneratedImage[];
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Someone else's public image, with only the fields get_shared_image returns
+const fetchSharedImage = async (imageId: string) => {
+  const { data, error } = await supabase.rpc('get_shared_image', { p_image_id: imageId });
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.[0] ?? null;
+};
+
+// Null when the image doesn't exist, is in the trash or is someone else's
+// private image. RLS only lets owners read their rows, other people's
+// public images come from get_shared_image.
+const fetchImage = async (imageId: string): Promise<GeneratedImage | null> => {
+  if (!UUID_PATTERN.test(imageId)) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('images')
+    .select(IMAGE_SELECT)
+    .eq('id', imageId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data ?? await fetchSharedImage(imageId);
+  if (!row) {
+    return null;
+  }
+
+  const [image] = await withImageUrls([mapDbImageToImage(row)]);
+  return image;
+};
+
+// Parents that were deleted or aren't visible end the chain
+const fetchImageLineage = async (image: GeneratedImage): Promise<ImageLineage> => {
+  const ancestors: GeneratedImage[] = [];
+  const seen = new Set([image.id]);
+  let parentId = image.parentImageId;
+  while (parentId && !seen.has(parentId) && ancestors.length < LINEAGE_DEPTH) {
+    seen.add(parentId);
+    const parent = await fetchImage(parentId);
+    if (!parent) break;
+    ancestors.unshift(parent);
+    parentId = parent.parentImageId;
+  }
+
+  const { data, error } = await supabase
+    .from('images')
+    .select(IMAGE_SELECT)
+    .eq('parent_image_id', image.id)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return { ancestors, versions: await withImageUrls((data || []).map(mapDbImageToImage)) };
+};
+
+// Other images by the same person sharing keywords with the prompt
+const fetchRelatedImages = async (image: GeneratedImage): Promise<GeneratedImage[]> => {
+  const keywords = extractPromptTags(image.prompt);
+  if (keywords.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('images')
+    .select(IMAGE_SELECT)
+    .eq('user_id', image.userId)
+    .neq('id', image.id)
+    .is('deleted_at', null)
+    .textSearch('prompt_search', keywords.join(' OR '), { type: 'websearch', config: 'english' })
+    .order('created_at', { ascending: false })
+    .limit(RELATED_LIMIT);
+
+  if (error) {
+    throw error;
+  }
+
+  return withImageUrls((data || []).map(mapDbImageToImage));
+};
+
+export const useImageDetail = (imageId?: string) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: imageKeys.detail(user?.id, imageId),
+    queryFn: () => fetchImage(imageId!),
+    enabled: !!imageId,
+  });
+};
+
+export const useImageLineage = (image?: GeneratedImage | null) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: [...imageKeys.detail(user?.id, image?.id), 'lineage'],
+    queryFn: () => fetchImageLineage(image!),
+    enabled: !!image,
+  });
+};
+
+export const useRelatedImages = (image?: GeneratedImage | null) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: [...imageKeys.detail(user?.id, image?.id), 'related'],
+    queryFn: () => fetchRelatedImages(image!),
+    enabled: !!image,
+  });
+};
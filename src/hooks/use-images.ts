@@ -0,0 +1,498 @@
+import { useMemo } from 'react';
+import {
+  InfiniteData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { GeneratedImage, mapDbImageToImage } from '@/types/database';
+import {
+  TRASH_RETENTION_DAYS,
+  imageFilePaths,
+  moveImageFiles,
+  removeStorageFiles,
+  withImageUrls,
+} from '@/lib/storage';
+import { tierLimitMessage } from '@/lib/tiers';
+import {
+  DEFAULT_IMAGE_FILTERS,
+  IMAGE_SORT_ORDER,
+  ImageFilters,
+  imageFiltersToParams,
+  parseImageFilters,
+  parseSize,
+} from '@/lib/image-filters';
+import { collectionKeys } from '@/hooks/use-collections';
+
+export const IMAGE_PAGE_SIZE = 24;
+
+// Position after the last image of a page: its sort column value, and its id
+// since sort values aren't unique
+export type ImageCursor = { value: string; id: string };
+export type ImagePage = { images: GeneratedImage[]; nextCursor: ImageCursor | null };
+type ImagePages = InfiniteData<ImagePage, ImageCursor | null>;
+
+export const imageKeys = {
+  all: (userId?: string) => ['images', userId] as const,
+  // Every history list, whatever its filters
+  histories: (userId?: string) => ['images', userId, 'history'] as const,
+  // Filters are keyed by their URL form so equivalent filters share a cache entry
+  history: (userId?: string, filters: ImageFilters = DEFAULT_IMAGE_FILTERS) =>
+    ['images', userId, 'history', imageFiltersToParams(filters).toString()] as const,
+  trash: (userId?: string) => ['images', userId, 'trash'] as const,
+  // Tag counts change with the images, so they live under the same key
+  tagCounts: (userId?: string) => ['images', userId, 'tag-counts'] as const,
+  // A single image page, with its lineage and related images under it
+  detail: (userId?: string, imageId?: string) => ['images', userId, 'detail', imageId] as const,
+};
+
+// Images with their tags, see mapDbImageToImage
+export const IMAGE_SELECT = '*, image_tags(tag)';
+// Filtering on a separate inner embed keeps every tag in image_tags
+const TAG_FILTER_SELECT = '*, image_tags(tag), tag_filter:image_tags!inner(tag)';
+
+// Values inside PostgREST filter strings are quoted, escape quotes and backslashes
+const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Start of a local yyyy-MM-dd day, offset by whole days
+const localDayStart = (date: string, offsetDays = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + offsetDays);
+  return day.toISOString();
+};
+
+const fetchImagePage = async (
+  userId: string,
+  trashed: boolean,
+  filters: ImageFilters,
+  cursor: ImageCursor | null
+): Promise<ImagePage> => {
+  const { column, ascending } = IMAGE_SORT_ORDER[filters.sort];
+
+  let query = supabase
+    .from('images')
+    // Typed as the filtered select, the result is only read through mapDbImageToImage
+    .select(filters.tag ? TAG_FILTER_SELECT : IMAGE_SELECT as typeof TAG_FILTER_SELECT)
+    .eq('user_id', userId)
+    .order(column, { ascending })
+    .order('id', { ascending })
+    .limit(IMAGE_PAGE_SIZE);
+
+  query = trashed ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
+  if (filters.query.trim()) {
+    query = query.textSearch('prompt_search', filters.query.trim(), { type: 'websearch', config: 'english' });
+  }
+  if (filters.from) {
+    query = query.gte('created_at', localDayStart(filters.from));
+  }
+  if (filters.to) {
+    query = query.lt('created_at', localDayStart(filters.to, 1));
+  }
+  if (filters.size) {
+    const { width, height } = parseSize(filters.size);
+    query = query.eq('width', width).eq('height', height);
+  }
+  if (filters.provider) {
+    query = query.eq('provider', filters.provider);
+  }
+  if (filters.model) {
+    query = query.eq('model', filters.model);
+  }
+  if (filters.favorites) {
+    query = query.eq('is_favorite', true);
+  }
+  if (filters.tag) {
+    query = query.eq('tag_filter.tag', filters.tag);
+  }
+
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    const value = quoteFilterValue(cursor.value);
+    query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+
+  const images = await withImageUrls((data || []).map(mapDbImageToImage));
+  const last = data?.[data.length - 1];
+  return {
+    images,
+    nextCursor: images.length === IMAGE_PAGE_SIZE && last ? { value: String(last[column]), id: last.id } : null,
+  };
+};
+
+export const fetchImagesByIds = async (imageIds: string[]): Promise<GeneratedImage[]> => {
+  const { data, error } = await supabase
+    .from('images')
+    .select(IMAGE_SELECT)
+    .in('id', imageIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return withImageUrls((data || []).map(mapDbImageToImage));
+};
+
+const useImagePages = (trashed: boolean, filters: ImageFilters = DEFAULT_IMAGE_FILTERS) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const query = useInfiniteQuery({
+    queryKey: trashed ? imageKeys.trash(userId) : imageKeys.history(userId, filters),
+    queryFn: ({ pageParam }) => fetchImagePage(userId!, trashed, filters, pageParam),
+    initialPageParam: null as ImageCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!userId,
+  });
+
+  const images = useMemo(() => query.data?.pages.flatMap(page => page.images) ?? [], [query.data]);
+  return { ...query, images };
+};
+
+// The signed-in user's images a page at a time, newest first unless filters say otherwise
+export const useImageHistory = (filters?: ImageFilters) => useImagePages(false, filters);
+
+export const useTrash = () => useImagePages(true);
+
+// Collections show their images too, so they follow every change to them
+export const invalidateImageQueries = (queryClient: QueryClient, userId?: string) => Promise.all([
+  queryClient.invalidateQueries({ queryKey: imageKeys.all(userId) }),
+  queryClient.invalidateQueries({ queryKey: collectionKeys.all(userId) }),
+]);
+
+// Applies to every cached list under the key, e.g. all filtered histories
+const updateCachedImages = (
+  queryClient: QueryClient,
+  queryKey: readonly unknown[],
+  update: (images: GeneratedImage[], pageIndex: number) => GeneratedImage[]
+) => {
+  queryClient.setQueriesData<ImagePages>({ queryKey }, data => data && {
+    ...data,
+    pages: data.pages.map((page, index) => ({ ...page, images: update(page.images, index) })),
+  });
+};
+
+const removeCachedImages = (queryClient: QueryClient, queryKey: readonly unknown[], imageIds: string[]) => {
+  const ids = new Set(imageIds);
+  updateCachedImages(queryClient, queryKey, images => images.filter(image => !ids.has(image.id)));
+};
+
+// Show new images at the top of the unfiltered history straight away, replacing any
+// with the same id. Filtered lists pick them up when they refetch.
+export const addImagesToHistory = (queryClient: QueryClient, userId: string, newImages: GeneratedImage[]) => {
+  const ids = new Set(newImages.map(image => image.id));
+  updateCachedImages(queryClient, imageKeys.history(userId), (images, pageIndex) => {
+    const others = images.filter(image => !ids.has(image.id));
+    return pageIndex === 0 ? [...newImages, ...others] : others;
+  });
+};
+
+// Apply a change to the given images wherever a history list shows them
+export const updateImagesInHistory = (
+  queryClient: QueryClient,
+  userId: string,
+  imageIds: string[],
+  update: (image: GeneratedImage) => GeneratedImage
+) => {
+  const ids = new Set(imageIds);
+  updateCachedImages(queryClient, imageKeys.histories(userId), images =>
+    images.map(image => ids.has(image.id) ? update(image) : image)
+  );
+};
+
+export const removeImagesFromHistory = (queryClient: QueryClient, userId: string, imageIds: string[]) =>
+  removeCachedImages(queryClient, imageKeys.histories(userId), imageIds);
+
+// Move images to the trash, or every image when no ids are given
+const trashImages = async (userId: string, imageIds?: string[]) => {
+  let query = supabase
+    .from('images')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (imageIds) {
+    query = query.in('id', imageIds);
+  }
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => row.id);
+};
+
+const restoreImages = async (imageIds: string[]) => {
+  const { error } = await supabase
+    .from('images')
+    .update({ deleted_at: null })
+    .in('id', imageIds)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Only trashed images can be purged, the deleted rows tell which files to remove
+const purgeImages = async (userId: string, imageIds?: string[]) => {
+  let query = supabase
+    .from('images')
+    .delete()
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null);
+
+  if (imageIds) {
+    query = query.in('id', imageIds);
+  }
+
+  const { data, error } = await query.select('*');
+  if (error) {
+    throw error;
+  }
+
+  const purged = (data || []).map(mapDbImageToImage);
+  try {
+    await removeStorageFiles(purged.flatMap(imageFilePaths));
+  } catch (fileError) {
+    console.error('Error removing image files:', fileError);
+  }
+
+  return purged;
+};
+
+// Shared by the trash mutations: optimistic removal from one list, rollback on error
+const useImageListMutation = <TVariables, TResult>({
+  list,
+  mutationFn,
+  optimisticIds,
+  onSuccess,
+  errorMessage,
+}: {
+  list: 'history' | 'trash';
+  mutationFn: (userId: string, variables: TVariables) => Promise<TResult>;
+  // Images to take out of the list before the request finishes, undefined for all of them
+  optimisticIds: (variables: TVariables) => string[] | undefined;
+  onSuccess?: (result: TResult, variables: TVariables) => void;
+  errorMessage: string;
+}) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = list === 'history' ? imageKeys.histories(user?.id) : imageKeys.trash(user?.id);
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => mutationFn(user!.id, variables),
+    onMutate: async (variables) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueriesData<ImagePages>({ queryKey });
+      const ids = optimisticIds(variables);
+      if (ids) {
+        removeCachedImages(queryClient, queryKey, ids);
+      } else {
+        updateCachedImages(queryClient, queryKey, () => []);
+      }
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error(errorMessage, error);
+      for (const [key, data] of context?.previous ?? []) {
+        queryClient.setQueryData(key, data);
+      }
+      toast.error(`${errorMessage} Please try again.`);
+    },
+    onSuccess,
+    onSettled: () => invalidateImageQueries(queryClient, user?.id),
+  });
+};
+
+// Offer to undo a move to the trash straight away
+const useTrashedToast = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return (message: string, imageIds: string[]) => {
+    toast(message, {
+      description: `Items in the trash are deleted permanently after ${TRASH_RETENTION_DAYS} days.`,
+      action: {
+        label: 'Undo',
+        onClick: () => {
+          restoreImages(imageIds)
+            .catch(error => {
+              console.error('Error restoring images:', error);
+              toast.error('Failed to restore. You can still do it from the trash.');
+            })
+            .finally(() => invalidateImageQueries(queryClient, user?.id));
+        },
+      },
+    });
+  };
+};
+
+export const useDeleteImage = () => {
+  const showTrashedToast = useTrashedToast();
+  return useImageListMutation({
+    list: 'history',
+    mutationFn: (userId, imageId: string) => trashImages(userId, [imageId]),
+    optimisticIds: imageId => [imageId],
+    onSuccess: ids => showTrashedToast('Image moved to trash.', ids),
+    errorMessage: 'Failed to delete image.',
+  });
+};
+
+export const useDeleteImages = () => {
+  const showTrashedToast = useTrashedToast();
+  return useImageListMutation({
+    list: 'history',
+    mutationFn: (userId, imageIds: string[]) => trashImages(userId, imageIds),
+    optimisticIds: imageIds => imageIds,
+    onSuccess: ids => showTrashedToast(
+      ids.length === 1 ? 'Image moved to trash.' : `${ids.length} images moved to trash.`,
+      ids
+    ),
+    errorMessage: 'Failed to delete images.',
+  });
+};
+
+export const useClearHistory = () => {
+  const showTrashedToast = useTrashedToast();
+  return useImageListMutation({
+    list: 'history',
+    mutationFn: (userId, _variables: void) => trashImages(userId),
+    optimisticIds: () => undefined,
+    onSuccess: ids => showTrashedToast('History moved to trash.', ids),
+    errorMessage: 'Failed to clear history.',
+  });
+};
+
+export const useRestoreImage = () =>
+  useImageListMutation({
+    list: 'trash',
+    mutationFn: (_userId, imageId: string) => restoreImages([imageId]),
+    optimisticIds: imageId => [imageId],
+    onSuccess: () => toast.success('Image restored.'),
+    errorMessage: 'Failed to restore image.',
+  });
+
+// Permanently delete trashed images, or the whole trash when no ids are given
+export const usePurgeImages = () =>
+  useImageListMutation({
+    list: 'trash',
+    mutationFn: (userId, imageIds: string[] | undefined) => purgeImages(userId, imageIds),
+    optimisticIds: imageIds => imageIds,
+    onSuccess: purged => toast.success(
+      purged.length === 1 ? 'Image deleted permanently.' : `${purged.length} images deleted permanently.`
+    ),
+    errorMessage: 'Failed to delete images.',
+  });
+
+// Star or unstar an image. Lists filtered to favorites drop an unstarred image straight away.
+export const useToggleFavorite = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = imageKeys.histories(user?.id);
+
+  return useMutation({
+    mutationFn: async ({ imageId, isFavorite }: { imageId: string; isFavorite: boolean }) => {
+      const { error } = await supabase
+        .from('images')
+        .update({ is_favorite: isFavorite })
+        .eq('id', imageId);
+
+      if (error) {
+        throw error;
+      }
+    },
+    onMutate: async ({ imageId, isFavorite }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueriesData<ImagePages>({ queryKey });
+      updateImagesInHistory(queryClient, user!.id, [imageId], image => ({ ...image, isFavorite }));
+      if (!isFavorite) {
+        for (const [key] of previous) {
+          // History keys end with their filters in URL form, see imageKeys.history
+          if (parseImageFilters(new URLSearchParams(String(key[3] ?? ''))).favorites) {
+            removeCachedImages(queryClient, key, [imageId]);
+          }
+        }
+      }
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Failed to update favorite.', error);
+      for (const [key, data] of context?.previous ?? []) {
+        queryClient.setQueryData(key, data);
+      }
+      toast.error('Failed to update favorite. Please try again.');
+    },
+    onSettled: () => invalidateImageQueries(queryClient, user?.id),
+  });
+};
+
+// Make images private or public. The database enforces the tier's private image limit.
+// The files move to the bucket for the new visibility: before the change when
+// making images public, after it when making them private so a rejected change
+// leaves them where they were.
+export const useSetImagesPrivacy = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = imageKeys.histories(user?.id);
+
+  return useMutation({
+    mutationFn: async ({ imageIds, isPrivate }: { imageIds: string[]; isPrivate: boolean }) => {
+      const { data: rows, error: rowsError } = await supabase
+        .from('images')
+        .select('*')
+        .in('id', imageIds)
+        .eq('is_private', !isPrivate);
+
+      if (rowsError) {
+        throw rowsError;
+      }
+
+      const paths = (rows || []).map(mapDbImageToImage).flatMap(imageFilePaths);
+      if (!isPrivate) {
+        await moveImageFiles(paths, false);
+      }
+
+      const { error } = await supabase
+        .from('images')
+        .update({ is_private: isPrivate })
+        .in('id', imageIds);
+
+      if (error) {
+        throw error;
+      }
+
+      if (isPrivate) {
+        // The storage-sweeper moves whatever is left
+        await moveImageFiles(paths, true).catch(moveError => console.error('Error moving image files:', moveError));
+      }
+    },
+    onMutate: async ({ imageIds, isPrivate }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueriesData<ImagePages>({ queryKey });
+      updateImagesInHistory(queryClient, user!.id, imageIds, image => ({ ...image, isPrivate }));
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error('Failed to change visibility.', error);
+      for (const [key, data] of context?.previous ?? []) {
+        queryClient.setQueryData(key, data);
+      }
+      toast.error(tierLimitMessage(error) ?? 'Failed to change visibility. Please try again.');
+    },
+    onSuccess: (_data, { imageIds, isPrivate }) => toast.success(
+      `${imageIds.length === 1 ? 'Image is' : `${imageIds.length} images are`} now ${isPrivate ? 'private' : 'public'}.`
+    ),
+    onSettled: () => invalidateImageQueries(queryClient, user?.id),
+  });
+};
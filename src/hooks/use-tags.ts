@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { imageKeys, invalidateImageQueries, updateImagesInHistory } from '@/hooks/use-images';
+
+export type TagCount = { tag: string; count: number };
+export type TagSource = 'manual' | 'auto';
+
+// Tags that are already there are left alone, tags are expected normalised
+export const tagImages = async (userId: string, imageIds: string[], tags: string[], source: TagSource = 'manual') => {
+  const rows = imageIds.flatMap(imageId => tags.map(tag => ({ image_id: imageId, user_id: userId, tag, source })));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('image_tags')
+    .upsert(rows, { onConflict: 'image_id,tag', ignoreDuplicates: true });
+
+  if (error) {
+    throw error;
+  }
+};
+
+const untagImages = async (imageIds: string[], tags: string[]) => {
+  const { error } = await supabase
+    .from('image_tags')
+    .delete()
+    .in('image_id', imageIds)
+    .in('tag', tags);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Every tag of the signed-in user with the number of images it's on, most used first
+export const useTagCounts = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: imageKeys.tagCounts(user?.id),
+    queryFn: async (): Promise<TagCount[]> => {
+      const { data, error } = await supabase.rpc('get_tag_counts');
+      if (error) {
+        throw error;
+      }
+      return (data || []).map(row => ({ tag: row.tag, count: Number(row.image_count) }));
+    },
+    enabled: !!user,
+  });
+};
+
+// Shows the change on cached images straight away, rolls back on error
+const useTagMutation = ({
+  mutationFn,
+  applyTags,
+  errorMessage,
+}: {
+  mutationFn: (userId: string, imageIds: string[], tags: string[]) => Promise<void>;
+  applyTags: (current: string[], tags: string[]) => string[];
+  errorMessage: string;
+}) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ imageIds, tags }: { imageIds: string[]; tags: string[] }) =>
+      mutationFn(user!.id, imageIds, tags),
+    onMutate: async ({ imageIds, tags }) => {
+      const queryKey = imageKeys.histories(user?.id);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueriesData({ queryKey });
+      updateImagesInHistory(queryClient, user!.id, imageIds, image => ({
+        ...image,
+        tags: applyTags(image.tags, tags),
+      }));
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error(errorMessage, error);
+      for (const [key, data] of context?.previous ?? []) {
+        queryClient.setQueryData(key, data);
+      }
+      toast.error(`${errorMessage} Please try again.`);
+    },
+    onSettled: () => invalidateImageQueries(queryClient, user?.id),
+  });
+};
+
+export const useAddTags = () =>
+  useTagMutation({
+    mutationFn: (userId, imageIds, tags) => tagImages(userId, imageIds, tags),
+    applyTags: (current, tags) => Array.from(new Set([...current, ...tags])).sort(),
+    errorMessage: 'Failed to add tags.',
+  });
+
+export const useRemoveTags = () =>
+  useTagMutation({
+    mutationFn: (_userId, imageIds, tags) => untagImages(imageIds, tags),
+    applyTags: (current, tags) => current.filter(tag => !tags.includes(tag)),
+    errorMessage: 'Failed to remove tags.',
+  });
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { TierLimits, TierUsage, resolveTier } from '@/lib/tiers';
+
+// The signed-in user's tier together with what they have used of it so far
+export function useUsage(): { tier: TierLimits; usage: TierUsage | null; refresh: () => Promise<void> } {
+  const { user, isAuthenticated } = useAuth();
+  const [usage, setUsage] = useState<TierUsage | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isAuthenticated || !user?.id) {
+      setUsage(null);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_usage_summary');
+    if (error) {
+      console.error('Error loading usage:', error);
+      return;
+    }
+
+    const row = data?.[0];
+    setUsage({
+      storageUsed: row?.storage_used ?? 0,
+      generationsToday: row?.generations_today ?? 0,
+      privateImages: row?.private_images ?? 0,
+    });
+  }, [isAuthenticated, user?.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tier: resolveTier(user?.subscriptionTier), usage, refresh };
+}
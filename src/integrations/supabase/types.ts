@@ -9,38 +9,384 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      collection_images: {
+        Row: {
+          added_at: string
+          collection_id: string
+          image_id: string
+          position: number
+        }
+        Insert: {
+          added_at?: string
+          collection_id: string
+          image_id: string
+          position?: number
+        }
+        Update: {
+          added_at?: string
+          collection_id?: string
+          image_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_images_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_images_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          cover_image_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cover_image_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cover_image_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collections_cover_image_id_fkey"
+            columns: ["cover_image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collections_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          description: string | null
+          id: string
+          job_id: string | null
+          kind: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          job_id?: string | null
+          kind: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          job_id?: string | null
+          kind?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_transactions_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_jobs: {
+        Row: {
+          batch_id: string | null
+          created_at: string
+          credits_refunded: boolean
+          credits_reserved: number
+          error: string | null
+          finished_at: string | null
+          id: string
+          image_id: string | null
+          kind: string
+          mask_image_path: string | null
+          model: string | null
+          params: Json
+          parent_image_id: string | null
+          progress: number
+          prompt: string
+          provider: string
+          runtime: string
+          source_image_path: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["generation_job_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          batch_id?: string | null
+          created_at?: string
+          credits_refunded?: boolean
+          credits_reserved?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          image_id?: string | null
+          kind?: string
+          mask_image_path?: string | null
+          model?: string | null
+          params?: Json
+          parent_image_id?: string | null
+          progress?: number
+          prompt: string
+          provider: string
+          runtime?: string
+          source_image_path?: string | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["generation_job_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          batch_id?: string | null
+          created_at?: string
+          credits_refunded?: boolean
+          credits_reserved?: number
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          image_id?: string | null
+          kind?: string
+          mask_image_path?: string | null
+          model?: string | null
+          params?: Json
+          parent_image_id?: string | null
+          progress?: number
+          prompt?: string
+          provider?: string
+          runtime?: string
+          source_image_path?: string | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["generation_job_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_parent_image_id_fkey"
+            columns: ["parent_image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generation_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      image_tags: {
+        Row: {
+          created_at: string
+          image_id: string
+          source: string
+          tag: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          image_id: string
+          source?: string
+          tag: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          image_id?: string
+          source?: string
+          tag?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "image_tags_image_id_fkey"
+            columns: ["image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "image_tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       images: {
         Row: {
+          aspect_ratio: string | null
+          batch_id: string | null
           cloudinary_public_id: string | null
+          content_hash: string | null
           created_at: string | null
+          deleted_at: string | null
+          edit_stack: Json | null
+          file_size: number
+          generation_job_id: string | null
+          guidance_scale: number | null
           height: number | null
           id: string
           image_url: string
+          is_favorite: boolean
+          is_private: boolean
+          mask_image_path: string | null
+          model: string | null
+          negative_prompt: string | null
+          origin: string
+          parent_image_id: string | null
           prompt: string
+          prompt_search: unknown | null
+          provider: string | null
+          seed: number | null
+          source_image_path: string | null
+          steps: number | null
+          storage_path: string | null
+          strength: number | null
+          thumbnail_path: string | null
           user_id: string
           width: number | null
         }
         Insert: {
+          aspect_ratio?: string | null
+          batch_id?: string | null
           cloudinary_public_id?: string | null
+          content_hash?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          edit_stack?: Json | null
+          file_size?: number
+          generation_job_id?: string | null
+          guidance_scale?: number | null
           height?: number | null
           id?: string
           image_url: string
+          is_favorite?: boolean
+          is_private?: boolean
+          mask_image_path?: string | null
+          model?: string | null
+          negative_prompt?: string | null
+          origin?: string
+          parent_image_id?: string | null
           prompt: string
+          provider?: string | null
+          seed?: number | null
+          source_image_path?: string | null
+          steps?: number | null
+          storage_path?: string | null
+          strength?: number | null
+          thumbnail_path?: string | null
           user_id: string
           width?: number | null
         }
         Update: {
+          aspect_ratio?: string | null
+          batch_id?: string | null
           cloudinary_public_id?: string | null
+          content_hash?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          edit_stack?: Json | null
+          file_size?: number
+          generation_job_id?: string | null
+          guidance_scale?: number | null
           height?: number | null
           id?: string
           image_url?: string
+          is_favorite?: boolean
+          is_private?: boolean
+          mask_image_path?: string | null
+          model?: string | null
+          negative_prompt?: string | null
+          origin?: string
+          parent_image_id?: string | null
           prompt?: string
+          provider?: string | null
+          seed?: number | null
+          source_image_path?: string | null
+          steps?: number | null
+          storage_path?: string | null
+          strength?: number | null
+          thumbnail_path?: string | null
           user_id?: string
           width?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "images_generation_job_id_fkey"
+            columns: ["generation_job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "images_parent_image_id_fkey"
+            columns: ["parent_image_id"]
+            isOneToOne: false
+            referencedRelation: "images"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "images_user_id_fkey"
             columns: ["user_id"]
@@ -60,7 +406,7 @@ export type Database = {
           last_login: string | null
           location: string | null
           name: string | null
-          subscription_tier: string | null
+          subscription_tier: string
           website: string | null
         }
         Insert: {
@@ -87,6 +433,44 @@ export type Database = {
           subscription_tier?: string | null
           website?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_subscription_tier_fkey"
+            columns: ["subscription_tier"]
+            isOneToOne: false
+            referencedRelation: "subscription_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscription_tiers: {
+        Row: {
+          daily_generations: number
+          id: string
+          max_batch_size: number
+          max_private_images: number | null
+          max_resolution: number
+          name: string
+          storage_quota_bytes: number
+        }
+        Insert: {
+          daily_generations: number
+          id: string
+          max_batch_size: number
+          max_private_images?: number | null
+          max_resolution: number
+          name: string
+          storage_quota_bytes: number
+        }
+        Update: {
+          daily_generations?: number
+          id?: string
+          max_batch_size?: number
+          max_private_images?: number | null
+          max_resolution?: number
+          name?: string
+          storage_quota_bytes?: number
+        }
         Relationships: []
       }
     }
@@ -94,10 +478,83 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      cancel_generation_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Database["public"]["Tables"]["generation_jobs"]["Row"][]
+      }
+      fail_generation_job: {
+        Args: {
+          p_job_id: string
+          p_error: string
+        }
+        Returns: Database["public"]["Tables"]["generation_jobs"]["Row"][]
+      }
+      generation_credit_cost: {
+        Args: {
+          p_width: number
+          p_height: number
+        }
+        Returns: number
+      }
+      get_shared_image: {
+        Args: {
+          p_image_id: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          prompt: string
+          image_url: string
+          storage_path: string | null
+          thumbnail_path: string | null
+          width: number | null
+          height: number | null
+          aspect_ratio: string | null
+          provider: string | null
+          model: string | null
+          parent_image_id: string | null
+          is_private: boolean
+          created_at: string
+        }[]
+      }
+      get_tag_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tag: string
+          image_count: number
+        }[]
+      }
+      get_usage_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          storage_used: number
+          generations_today: number
+          private_images: number
+        }[]
+      }
+      reorder_collection_images: {
+        Args: {
+          p_collection_id: string
+          p_image_ids: string[]
+        }
+        Returns: undefined
+      }
+      start_generation_job: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: Database["public"]["Tables"]["generation_jobs"]["Row"][]
+      }
     }
     Enums: {
-      [_ in never]: never
+      generation_job_status:
+        | "queued"
+        | "running"
+        | "succeeded"
+        | "failed"
+        | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
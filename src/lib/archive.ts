@@ -0,0 +1,122 @@
+// ZIP export of images with a manifest.json describing them, in a layout the
+// importer can read back.
+import JSZip from 'jszip';
+import { GeneratedImage } from '@/types/database';
+import { fetchImageBlob, imageFilename, saveBlob } from '@/lib/download';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+export const MANIFEST_VERSION = 1;
+export const ARCHIVE_IMAGES_FOLDER = 'images';
+
+// Images fetched at the same time while building an archive
+const FETCH_CONCURRENCY = 4;
+
+export type ManifestImage = {
+  // Path inside the archive
+  file: string;
+  id: string;
+  prompt: string;
+  seed: number | null;
+  parameters: {
+    steps: number | null;
+    guidance_scale: number | null;
+    negative_prompt: string | null;
+    aspect_ratio: string | null;
+    provider: string | null;
+    model: string | null;
+  };
+  width: number | null;
+  height: number | null;
+  tags: string[];
+  is_favorite: boolean;
+  is_private: boolean;
+  created_at: string;
+};
+
+export type ImageManifest = {
+  version: typeof MANIFEST_VERSION;
+  exported_at: string;
+  images: ManifestImage[];
+};
+
+export type ArchiveResult = { added: number; failed: GeneratedImage[] };
+
+const toManifestImage = (image: GeneratedImage, file: string): ManifestImage => ({
+  file,
+  id: image.id,
+  prompt: image.prompt,
+  seed: image.seed,
+  parameters: {
+    steps: image.steps,
+    guidance_scale: image.guidanceScale,
+    negative_prompt: image.negativePrompt,
+    aspect_ratio: image.aspectRatio,
+    provider: image.provider,
+    model: image.model,
+  },
+  width: image.width,
+  height: image.height,
+  tags: image.tags,
+  is_favorite: image.isFavorite,
+  is_private: image.isPrivate,
+  created_at: image.createdAt,
+});
+
+// Images that can't be fetched are left out of the archive and its manifest
+export const createImageArchive = async (
+  images: GeneratedImage[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ArchiveResult & { blob: Blob }> => {
+  const zip = new JSZip();
+  const entries: (ManifestImage | null)[] = new Array(images.length).fill(null);
+  const failed: GeneratedImage[] = [];
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < images.length) {
+      const index = next++;
+      const image = images[index];
+      try {
+        const blob = await fetchImageBlob(image.imageUrl);
+        const file = `${ARCHIVE_IMAGES_FOLDER}/${imageFilename(image, blob)}`;
+        zip.file(file, blob, { date: new Date(image.createdAt) });
+        entries[index] = toManifestImage(image, file);
+      } catch (error) {
+        console.error(`Error adding image ${image.id} to archive:`, error);
+        failed.push(image);
+      }
+      onProgress?.(++done, images.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, images.length) }, worker));
+
+  // Manifest entries keep the order the images were given in
+  const manifest: ImageManifest = {
+    version: MANIFEST_VERSION,
+    exported_at: new Date().toISOString(),
+    images: entries.filter((entry): entry is ManifestImage => entry !== null),
+  };
+  zip.file(MANIFEST_FILENAME, JSON.stringify(manifest, null, 2));
+
+  // Images are already compressed, storing them is as small and much faster
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
+  return { blob, added: manifest.images.length, failed };
+};
+
+// File name friendly version of a label, e.g. a collection name
+export const archiveName = (label: string) =>
+  label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'images';
+
+export const downloadImageArchive = async (
+  images: GeneratedImage[],
+  name: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ArchiveResult> => {
+  const { blob, added, failed } = await createImageArchive(images, onProgress);
+  if (added === 0) {
+    throw new Error('None of the images could be downloaded');
+  }
+  saveBlob(blob, `${archiveName(name)}.zip`);
+  return { added, failed };
+};
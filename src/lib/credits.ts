@@ -0,0 +1,21 @@
+// Credit pricing. Must match public.generation_credit_cost in the database,
+// which is what actually charges the account.
+
+const PIXELS_PER_CREDIT = 1024 * 1024;
+
+// One credit per started megapixel
+export const creditCostForImage = (width: number, height: number) =>
+  Math.max(1, Math.ceil((width * height) / PIXELS_PER_CREDIT));
+
+export const creditCostForBatch = (width: number, height: number, count: number) =>
+  creditCostForImage(width, height) * count;
+
+export const formatCredits = (credits: number) =>
+  `${credits} ${credits === 1 ? 'credit' : 'credits'}`;
+
+// Errors raised by the reserve_generation_credits trigger
+export const isInsufficientCreditsError = (error: unknown) =>
+  typeof error === 'object' &&
+  error !== null &&
+  'message' in error &&
+  String((error as { message: unknown }).message).includes('insufficient_credits');
@@ -0,0 +1,53 @@
+import { GeneratedImage, isUnsavedImage } from '@/types/database';
+
+// File extension for each image type we can save
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+// Object URLs of unsaved images can't take a query string
+const withCacheBuster = (url: string) =>
+  url.startsWith('blob:') ? url : `${url}${url.includes('?') ? '&' : '?'}t=${Date.now()}`;
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  const objectUrl = URL.createObjectURL(blob);
+  const downloadLink = document.createElement('a');
+  downloadLink.href = objectUrl;
+  downloadLink.download = filename;
+  document.body.appendChild(downloadLink);
+  downloadLink.click();
+  document.body.removeChild(downloadLink);
+  URL.revokeObjectURL(objectUrl);
+};
+
+export const fetchImageBlob = async (url: string) => {
+  const response = await fetch(withCacheBuster(url));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status})`);
+  }
+  return response.blob();
+};
+
+// From the file's type when known, else the stored file name, else jpg
+export const imageExtension = (image: GeneratedImage, blob?: Blob) => {
+  const fromType = blob && IMAGE_EXTENSIONS[blob.type];
+  if (fromType) return fromType;
+
+  const path = image.storagePath ?? (isUnsavedImage(image) ? '' : image.imageUrl.split('?')[0]);
+  const fromPath = path.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase().replace('jpeg', 'jpg');
+  return fromPath && Object.values(IMAGE_EXTENSIONS).includes(fromPath) ? fromPath : 'jpg';
+};
+
+export const imageFilename = (image: GeneratedImage, blob?: Blob) =>
+  `imaginate-${image.id}.${imageExtension(image, blob)}`;
+
+// The full image, never the thumbnail. The URL can be given when it had to be
+// re-signed.
+export const downloadImage = async (image: GeneratedImage, url = image.imageUrl) => {
+  const blob = await fetchImageBlob(url);
+  saveBlob(blob, imageFilename(image, blob));
+};
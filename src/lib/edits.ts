@@ -0,0 +1,368 @@
+// Non-destructive editing. The editor keeps a stack of edits and renders them
+// over the original each time, a saved version records the stack as
+// `edit_stack` so it can be reopened and any edit taken back.
+import { supabase } from '@/integrations/supabase/client';
+import { GeneratedImage, mapDbImageToImage } from '@/types/database';
+import { ASPECT_RATIO_PRESETS } from '@/lib/generation';
+import { IMAGE_EXTENSIONS } from '@/lib/download';
+import { createThumbnail, imageBucket, removeStorageFiles, storedImageUrl, withImageUrls } from '@/lib/storage';
+import { canvasToBlob, createCanvas } from '@/lib/providers/local';
+import { extractPromptTags } from '@/lib/tags';
+import { tagImages } from '@/hooks/use-tags';
+
+export type ColorAdjustments = {
+  // -100 to 100, 0 leaves the image as it is
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  // Degrees around the colour wheel, -180 to 180
+  hue: number;
+};
+
+export type EditFilter = 'mono' | 'sepia' | 'warm' | 'cool' | 'fade' | 'vivid';
+
+export type TextPosition = 'top' | 'center' | 'bottom';
+
+export type EditOperation =
+  // Centred crop, ratio is width / height
+  | { type: 'crop'; aspectRatio: string; ratio: number }
+  | { type: 'rotate'; direction: 'left' | 'right' }
+  | { type: 'flip'; axis: 'horizontal' | 'vertical' }
+  | ({ type: 'adjust' } & ColorAdjustments)
+  | { type: 'filter'; filter: EditFilter }
+  // size is a percentage of the image height, so previews match the export
+  | { type: 'text'; text: string; position: TextPosition; color: string; size: number };
+
+export const NO_ADJUSTMENTS: ColorAdjustments = { brightness: 0, contrast: 0, saturation: 0, hue: 0 };
+
+// Upper bound for the live preview, the export renders at full size
+export const EDIT_PREVIEW_SIZE = 1024;
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type Context = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+// Row-major 3×3 matrix over RGB values
+type Matrix = number[];
+type Curves = [Uint8ClampedArray, Uint8ClampedArray, Uint8ClampedArray];
+
+const context2d = (canvas: Canvas): Context => {
+  const ctx = canvas.getContext('2d') as Context | null;
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  return ctx;
+};
+
+const IDENTITY: Matrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map((_, index) => {
+    const row = Math.floor(index / 3);
+    const column = index % 3;
+    return a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column];
+  });
+
+// The matrices behind CSS saturate() and hue-rotate()
+const saturateMatrix = (amount: number): Matrix => [
+  0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount,
+  0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount,
+  0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount,
+];
+
+const hueMatrix = (degrees: number): Matrix => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+};
+
+const SEPIA: Matrix = [0.393, 0.769, 0.189, 0.349, 0.686, 0.168, 0.272, 0.534, 0.131];
+
+// A lookup table through [input, output] points, straight lines in between
+const curve = (points: [number, number][]) => {
+  const table = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    const next = points.findIndex(([input]) => input >= i);
+    if (next <= 0) {
+      table[i] = points[next === -1 ? points.length - 1 : 0][1];
+      continue;
+    }
+    const [x0, y0] = points[next - 1];
+    const [x1, y1] = points[next];
+    table[i] = y0 + ((i - x0) / (x1 - x0)) * (y1 - y0);
+  }
+  return table;
+};
+
+const LINEAR = curve([[0, 0], [255, 255]]);
+
+// Colour grades as a matrix followed by per-channel curves, like a 1D LUT
+export const EDIT_FILTERS: { id: EditFilter; label: string; matrix: Matrix; curves: Curves }[] = [
+  { id: 'mono', label: 'Mono', matrix: saturateMatrix(0), curves: [LINEAR, LINEAR, LINEAR] },
+  { id: 'sepia', label: 'Sepia', matrix: SEPIA, curves: [LINEAR, LINEAR, LINEAR] },
+  {
+    id: 'warm',
+    label: 'Warm',
+    matrix: IDENTITY,
+    curves: [curve([[0, 12], [128, 146], [255, 255]]), LINEAR, curve([[0, 0], [128, 112], [255, 232]])],
+  },
+  {
+    id: 'cool',
+    label: 'Cool',
+    matrix: IDENTITY,
+    curves: [curve([[0, 0], [128, 112], [255, 236]]), LINEAR, curve([[0, 14], [128, 146], [255, 255]])],
+  },
+  {
+    id: 'fade',
+    label: 'Fade',
+    matrix: saturateMatrix(0.75),
+    curves: [curve([[0, 40], [255, 228]]), curve([[0, 40], [255, 228]]), curve([[0, 46], [255, 222]])],
+  },
+  {
+    id: 'vivid',
+    label: 'Vivid',
+    matrix: saturateMatrix(1.4),
+    curves: [
+      curve([[0, 0], [64, 50], [192, 206], [255, 255]]),
+      curve([[0, 0], [64, 50], [192, 206], [255, 255]]),
+      curve([[0, 0], [64, 50], [192, 206], [255, 255]]),
+    ],
+  },
+];
+
+// Brightness scales, contrast pushes values away from (or towards) the middle
+const toneCurve = ({ brightness, contrast }: ColorAdjustments) => {
+  const table = new Uint8ClampedArray(256);
+  const scale = 1 + brightness / 100;
+  const spread = 1 + contrast / 100;
+  for (let i = 0; i < 256; i++) {
+    table[i] = ((i * scale) / 255 - 0.5) * spread * 255 + 127.5;
+  }
+  return table;
+};
+
+const applyColor = (canvas: Canvas, matrix: Matrix, curves: Curves) => {
+  const ctx = context2d(canvas);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = pixels;
+  const [red, green, blue] = curves;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    // The curves are looked up with the matrix output rounded into 0-255
+    const mappedR = matrix[0] * r + matrix[1] * g + matrix[2] * b;
+    const mappedG = matrix[3] * r + matrix[4] * g + matrix[5] * b;
+    const mappedB = matrix[6] * r + matrix[7] * g + matrix[8] * b;
+    data[i] = red[Math.min(255, Math.max(0, Math.round(mappedR)))];
+    data[i + 1] = green[Math.min(255, Math.max(0, Math.round(mappedG)))];
+    data[i + 2] = blue[Math.min(255, Math.max(0, Math.round(mappedB)))];
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+// Draw onto a new canvas, for edits that change the size or orientation
+const redraw = (width: number, height: number, draw: (ctx: Context) => void) => {
+  const next = createCanvas(width, height);
+  draw(context2d(next));
+  return next;
+};
+
+const drawText = (canvas: Canvas, edit: Extract<EditOperation, { type: 'text' }>) => {
+  const ctx = context2d(canvas);
+  const fontSize = Math.max(8, Math.round((canvas.height * edit.size) / 100));
+  const margin = Math.round(fontSize * 0.6);
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = edit.position === 'top' ? 'top' : edit.position === 'bottom' ? 'bottom' : 'middle';
+  const y = edit.position === 'top' ? margin : edit.position === 'bottom' ? canvas.height - margin : canvas.height / 2;
+  const maxWidth = canvas.width - margin * 2;
+  // An outline keeps the text readable over any background
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = Math.max(1, fontSize / 10);
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.strokeText(edit.text, canvas.width / 2, y, maxWidth);
+  ctx.fillStyle = edit.color;
+  ctx.fillText(edit.text, canvas.width / 2, y, maxWidth);
+  return canvas;
+};
+
+const applyEdit = (canvas: Canvas, edit: EditOperation): Canvas => {
+  const { width, height } = canvas;
+  switch (edit.type) {
+    case 'crop': {
+      const cropWidth = Math.min(width, Math.round(height * edit.ratio));
+      const cropHeight = Math.min(height, Math.round(width / edit.ratio));
+      const x = Math.round((width - cropWidth) / 2);
+      const y = Math.round((height - cropHeight) / 2);
+      return redraw(cropWidth, cropHeight, ctx =>
+        ctx.drawImage(canvas, x, y, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight)
+      );
+    }
+    case 'rotate':
+      return redraw(height, width, ctx => {
+        ctx.translate(height / 2, width / 2);
+        ctx.rotate(edit.direction === 'right' ? Math.PI / 2 : -Math.PI / 2);
+        ctx.drawImage(canvas, -width / 2, -height / 2);
+      });
+    case 'flip':
+      return redraw(width, height, ctx => {
+        if (edit.axis === 'horizontal') {
+          ctx.translate(width, 0);
+          ctx.scale(-1, 1);
+        } else {
+          ctx.translate(0, height);
+          ctx.scale(1, -1);
+        }
+        ctx.drawImage(canvas, 0, 0);
+      });
+    case 'adjust': {
+      const tone = toneCurve(edit);
+      return applyColor(
+        canvas,
+        multiply(hueMatrix(edit.hue), saturateMatrix(1 + edit.saturation / 100)),
+        [tone, tone, tone]
+      );
+    }
+    case 'filter': {
+      const filter = EDIT_FILTERS.find(item => item.id === edit.filter);
+      return filter ? applyColor(canvas, filter.matrix, filter.curves) : canvas;
+    }
+    case 'text':
+      return edit.text.trim() ? drawText(canvas, edit) : canvas;
+  }
+};
+
+// The image on a canvas, scaled down to fit maxDimension when given
+export const loadEditSource = async (blob: Blob, maxDimension?: number): Promise<Canvas> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    return redraw(width, height, ctx => ctx.drawImage(bitmap, 0, 0, width, height));
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Edits always go onto a copy, so the source can be rendered again
+export const renderEdits = (source: Canvas, edits: EditOperation[]): Canvas =>
+  edits.reduce(
+    applyEdit,
+    redraw(source.width, source.height, ctx => ctx.drawImage(source, 0, 0))
+  );
+
+export const describeEdit = (edit: EditOperation): string => {
+  switch (edit.type) {
+    case 'crop':
+      return `Crop to ${edit.aspectRatio}`;
+    case 'rotate':
+      return edit.direction === 'right' ? 'Rotate right' : 'Rotate left';
+    case 'flip':
+      return edit.axis === 'horizontal' ? 'Flip horizontally' : 'Flip vertically';
+    case 'adjust':
+      return 'Adjust colours';
+    case 'filter':
+      return `${EDIT_FILTERS.find(item => item.id === edit.filter)?.label ?? 'Unknown'} filter`;
+    case 'text':
+      return `Text "${edit.text}"`;
+  }
+};
+
+// Render the edits over the full-size original and save the result as a new
+// version of it. JPEG and WebP originals stay in their format, anything else
+// becomes PNG.
+export const saveEditedImage = async (
+  userId: string,
+  original: GeneratedImage,
+  source: Blob,
+  edits: EditOperation[]
+): Promise<GeneratedImage> => {
+  const canvas = renderEdits(await loadEditSource(source), edits);
+  const mimeType = ['image/jpeg', 'image/webp'].includes(source.type) ? source.type : 'image/png';
+  const blob = await canvasToBlob(canvas, mimeType, mimeType === 'image/png' ? undefined : 0.92);
+  const timestamp = Date.now();
+  const filePath = `${userId}/${timestamp}-edit.${IMAGE_EXTENSIONS[mimeType]}`;
+  const bucket = imageBucket(original.isPrivate);
+
+  const { error: uploadError } = await supabase
+    .storage
+    .from(bucket)
+    .upload(filePath, blob, { contentType: mimeType });
+
+  if (uploadError) {
+    throw uploadError;
+  }
+
+  // A missing thumbnail only means grids fall back to the full image
+  let thumbnail: { path: string; size: number } | null = null;
+  try {
+    const thumbnailBlob = await createThumbnail(blob);
+    const thumbnailPath = `${userId}/thumbnails/${timestamp}-edit.webp`;
+    const { error: thumbnailError } = await supabase
+      .storage
+      .from(bucket)
+      .upload(thumbnailPath, thumbnailBlob, { contentType: 'image/webp' });
+
+    if (thumbnailError) {
+      throw thumbnailError;
+    }
+    thumbnail = { path: thumbnailPath, size: thumbnailBlob.size };
+  } catch (error) {
+    console.error('Error creating thumbnail:', error);
+  }
+
+  // Crops and rotations can leave the image at another preset's ratio
+  const ratio = canvas.width / canvas.height;
+  const preset = ASPECT_RATIO_PRESETS.find(item => Math.abs(item.width / item.height - ratio) < 0.01);
+
+  const { data: imageData, error: imageError } = await supabase
+    .from('images')
+    .insert({
+      prompt: original.prompt,
+      image_url: storedImageUrl(filePath, original.isPrivate),
+      storage_path: filePath,
+      thumbnail_path: thumbnail?.path ?? null,
+      user_id: userId,
+      width: canvas.width,
+      height: canvas.height,
+      provider: original.provider,
+      model: original.model,
+      aspect_ratio: preset?.id ?? null,
+      seed: original.seed,
+      steps: original.steps,
+      guidance_scale: original.guidanceScale,
+      negative_prompt: original.negativePrompt,
+      parent_image_id: original.id,
+      edit_stack: edits,
+      is_private: original.isPrivate,
+      file_size: blob.size + (thumbnail?.size ?? 0),
+      origin: 'edited',
+    })
+    .select('*')
+    .single();
+
+  if (imageError) {
+    await removeStorageFiles(thumbnail ? [filePath, thumbnail.path] : [filePath]).catch(error =>
+      console.error('Error removing uploaded files:', error)
+    );
+    throw imageError;
+  }
+
+  // Missing tags only make the image harder to find, not worth failing over
+  let tags = extractPromptTags(original.prompt);
+  try {
+    await tagImages(userId, [imageData.id], tags, 'auto');
+  } catch (error) {
+    console.error('Error tagging image:', error);
+    tags = [];
+  }
+
+  const [image] = await withImageUrls([mapDbImageToImage(imageData)]);
+  return { ...image, tags: [...tags].sort() };
+};
@@ -0,0 +1,106 @@
+// Outpainting: the image is placed on a larger canvas with another aspect
+// ratio and the provider fills in the rest, like inpainting with a mask that
+// covers everything but the original.
+import { AspectRatioPreset, clampDimension } from '@/lib/generation';
+import { canvasToBlob, createCanvas } from '@/lib/providers/local';
+
+export type ExtendDirection = 'left' | 'right' | 'up' | 'down' | 'both';
+
+export type ExtendLayout = {
+  // The extended image
+  width: number;
+  height: number;
+  // Where the original goes on it, scaled down if the extended image had to be
+  x: number;
+  y: number;
+  imageWidth: number;
+  imageHeight: number;
+};
+
+// Reaching a wider ratio adds width, a taller one adds height
+export const extendAxis = (width: number, height: number, preset: AspectRatioPreset) => {
+  const ratio = preset.width / preset.height;
+  const current = width / height;
+  if (Math.abs(ratio - current) < 0.01) return null;
+  return ratio > current ? 'horizontal' : 'vertical';
+};
+
+export const EXTEND_DIRECTIONS: Record<'horizontal' | 'vertical', { id: ExtendDirection; label: string }[]> = {
+  horizontal: [
+    { id: 'left', label: 'Left' },
+    { id: 'both', label: 'Both sides' },
+    { id: 'right', label: 'Right' },
+  ],
+  vertical: [
+    { id: 'up', label: 'Up' },
+    { id: 'both', label: 'Top and bottom' },
+    { id: 'down', label: 'Down' },
+  ],
+};
+
+// Null when the image already has that aspect ratio
+export const extendLayout = (
+  width: number,
+  height: number,
+  preset: AspectRatioPreset,
+  direction: ExtendDirection,
+  maxDimension: number
+): ExtendLayout | null => {
+  const axis = extendAxis(width, height, preset);
+  if (!axis) return null;
+
+  const ratio = preset.width / preset.height;
+  const targetWidth = axis === 'horizontal' ? height * ratio : width;
+  const targetHeight = axis === 'horizontal' ? height : width / ratio;
+  // Everything shrinks when the extended image would be over the size limit
+  const scale = Math.min(1, maxDimension / Math.max(targetWidth, targetHeight));
+  const newWidth = clampDimension(targetWidth * scale, maxDimension);
+  const newHeight = clampDimension(targetHeight * scale, maxDimension);
+
+  // The original spans the side that isn't extended
+  const imageWidth = axis === 'horizontal'
+    ? Math.min(Math.round(width * newHeight / height), newWidth)
+    : newWidth;
+  const imageHeight = axis === 'horizontal'
+    ? newHeight
+    : Math.min(Math.round(height * newWidth / width), newHeight);
+
+  const spareX = newWidth - imageWidth;
+  const spareY = newHeight - imageHeight;
+  return {
+    width: newWidth,
+    height: newHeight,
+    x: direction === 'left' ? spareX : direction === 'right' ? 0 : Math.round(spareX / 2),
+    y: direction === 'up' ? spareY : direction === 'down' ? 0 : Math.round(spareY / 2),
+    imageWidth,
+    imageHeight,
+  };
+};
+
+// The original on the extended canvas, and a mask that is opaque where the
+// provider has to fill in
+export const buildExtendedImage = async (source: Blob, layout: ExtendLayout) => {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const canvas = createCanvas(layout.width, layout.height);
+    const mask = createCanvas(layout.width, layout.height);
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    const maskCtx = mask.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx || !maskCtx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    ctx.drawImage(bitmap, layout.x, layout.y, layout.imageWidth, layout.imageHeight);
+    maskCtx.fillStyle = '#000';
+    maskCtx.fillRect(0, 0, layout.width, layout.height);
+    maskCtx.clearRect(layout.x, layout.y, layout.imageWidth, layout.imageHeight);
+
+    const [image, maskImage] = await Promise.all([
+      canvasToBlob(canvas, 'image/png'),
+      canvasToBlob(mask, 'image/png'),
+    ]);
+    return { image, mask: maskImage };
+  } finally {
+    bitmap.close();
+  }
+};
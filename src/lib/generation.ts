@@ -0,0 +1,120 @@
+// Generation settings shared by the generator form, the image context and providers
+import { GeneratedImage } from '@/types/database';
+
+export type AspectRatioPreset = {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+};
+
+export const ASPECT_RATIO_PRESETS: AspectRatioPreset[] = [
+  { id: '1:1', label: 'Square (1:1)', width: 800, height: 800 },
+  { id: '4:3', label: 'Landscape (4:3)', width: 960, height: 720 },
+  { id: '3:4', label: 'Portrait (3:4)', width: 720, height: 960 },
+  { id: '16:9', label: 'Widescreen (16:9)', width: 1024, height: 576 },
+  { id: '9:16', label: 'Story (9:16)', width: 576, height: 1024 },
+  { id: '3:2', label: 'Photo (3:2)', width: 960, height: 640 },
+  { id: '2:3', label: 'Poster (2:3)', width: 640, height: 960 },
+];
+
+export const CUSTOM_ASPECT_RATIO = 'custom';
+
+export const MIN_DIMENSION = 256;
+export const MAX_DIMENSION = 2048;
+export const MIN_STEPS = 10;
+export const MAX_STEPS = 100;
+export const MIN_GUIDANCE = 1;
+export const MAX_GUIDANCE = 20;
+export const MAX_SEED = 2147483647;
+export const MAX_BATCH_SIZE = 4;
+export const MIN_STRENGTH = 0.05;
+export const MAX_STRENGTH = 1;
+// Upscaling can go past the generation limits, see 20261020000000_add_upscale_jobs.sql
+export const UPSCALE_FACTORS = [2, 4];
+export const MAX_UPSCALE_DIMENSION = 4096;
+
+export type GenerationSettings = {
+  aspectRatio: string;
+  width: number;
+  height: number;
+  // null means a random seed is picked (and recorded) at generation time
+  seed: number | null;
+  steps: number;
+  guidanceScale: number;
+  negativePrompt: string;
+  // Number of variations to generate, each with its own seed
+  count: number;
+  isPrivate: boolean;
+  // Only used with a reference image: 0 keeps the reference, 1 ignores it
+  strength: number;
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  aspectRatio: '1:1',
+  width: 800,
+  height: 800,
+  seed: null,
+  steps: 30,
+  guidanceScale: 7.5,
+  negativePrompt: '',
+  count: 1,
+  isPrivate: false,
+  strength: 0.6,
+};
+
+export const clampDimension = (value: number, max = MAX_DIMENSION) => {
+  const rounded = Math.round(value / 8) * 8;
+  return Math.min(Math.max(rounded, MIN_DIMENSION), max);
+};
+
+// Scale a size down to fit a provider's limits, keeping its aspect ratio
+export const fitDimensions = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  if (scale === 1) return { width, height };
+  return {
+    width: clampDimension(width * scale, maxWidth),
+    height: clampDimension(height * scale, maxHeight),
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+// Fill in defaults and pick a concrete seed so the result can be reproduced
+export const resolveGenerationSettings = (
+  settings: Partial<GenerationSettings> = {}
+): GenerationSettings & { seed: number } => {
+  const merged = { ...DEFAULT_GENERATION_SETTINGS, ...settings };
+  return {
+    ...merged,
+    width: clampDimension(merged.width),
+    height: clampDimension(merged.height),
+    seed: merged.seed ?? randomSeed(),
+    steps: Math.min(Math.max(Math.round(merged.steps), MIN_STEPS), MAX_STEPS),
+    guidanceScale: Math.min(Math.max(merged.guidanceScale, MIN_GUIDANCE), MAX_GUIDANCE),
+    negativePrompt: merged.negativePrompt.trim(),
+    count: Math.min(Math.max(Math.round(merged.count), 1), MAX_BATCH_SIZE),
+    strength: Math.min(Math.max(merged.strength, MIN_STRENGTH), MAX_STRENGTH),
+  };
+};
+
+// Seeds for each variation in a batch, consecutive so a batch can be reproduced from its first seed
+export const batchSeeds = (seed: number, count: number) =>
+  Array.from({ length: count }, (_, index) => (seed + index) % MAX_SEED);
+
+export const findAspectRatioPreset = (width: number, height: number) =>
+  ASPECT_RATIO_PRESETS.find(preset => preset.width === width && preset.height === height);
+
+// Settings an image was generated with, falling back to the defaults for
+// anything older rows didn't record. The seed is left out so a new one is picked.
+export const imageGenerationSettings = (image: GeneratedImage): Partial<GenerationSettings> => ({
+  ...(image.width && image.height ? { width: image.width, height: image.height } : {}),
+  ...(image.aspectRatio ? { aspectRatio: image.aspectRatio } : {}),
+  ...(image.steps ? { steps: image.steps } : {}),
+  ...(image.guidanceScale ? { guidanceScale: image.guidanceScale } : {}),
+  negativePrompt: image.negativePrompt ?? '',
+  ...(image.strength !== null ? { strength: image.strength } : {}),
+  isPrivate: image.isPrivate,
+  seed: null,
+  count: 1,
+});
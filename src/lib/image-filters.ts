@@ -0,0 +1,97 @@
+// History search and filter state, kept in the URL so searches can be shared
+// and survive reloads.
+
+import { normalizeTag } from '@/lib/tags';
+
+export type ImageSort = 'newest' | 'oldest' | 'prompt';
+
+export type ImageFilters = {
+  query: string;
+  // Inclusive local dates, yyyy-MM-dd
+  from: string | null;
+  to: string | null;
+  // Exact dimensions as "WIDTHxHEIGHT"
+  size: string | null;
+  provider: string | null;
+  model: string | null;
+  favorites: boolean;
+  // Normalised tag, see lib/tags
+  tag: string | null;
+  sort: ImageSort;
+};
+
+export const DEFAULT_IMAGE_FILTERS: ImageFilters = {
+  query: '',
+  from: null,
+  to: null,
+  size: null,
+  provider: null,
+  model: null,
+  favorites: false,
+  tag: null,
+  sort: 'newest',
+};
+
+export const IMAGE_SORT_OPTIONS: { id: ImageSort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'prompt', label: 'Prompt A–Z' },
+];
+
+// Column and direction behind each sort, id breaks ties
+export const IMAGE_SORT_ORDER: Record<ImageSort, { column: 'created_at' | 'prompt'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  prompt: { column: 'prompt', ascending: true },
+};
+
+const isSort = (value: string | null): value is ImageSort =>
+  IMAGE_SORT_OPTIONS.some(option => option.id === value);
+
+const isDate = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const parseImageFilters = (params: URLSearchParams): ImageFilters => ({
+  query: params.get('q')?.trim() || '',
+  from: isDate(params.get('from')) ? params.get('from') : null,
+  to: isDate(params.get('to')) ? params.get('to') : null,
+  size: /^\d+x\d+$/.test(params.get('size') || '') ? params.get('size') : null,
+  provider: params.get('provider') || null,
+  model: params.get('model') || null,
+  favorites: params.get('favorites') === '1',
+  tag: normalizeTag(params.get('tag') || ''),
+  sort: isSort(params.get('sort')) ? params.get('sort') as ImageSort : DEFAULT_IMAGE_FILTERS.sort,
+});
+
+// Only non-default values go in the URL
+export const imageFiltersToParams = (filters: ImageFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.size) params.set('size', filters.size);
+  if (filters.provider) params.set('provider', filters.provider);
+  if (filters.model) params.set('model', filters.model);
+  if (filters.favorites) params.set('favorites', '1');
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.sort !== DEFAULT_IMAGE_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+};
+
+// Whether anything narrows the results (sorting doesn't)
+export const hasActiveFilters = (filters: ImageFilters) =>
+  Boolean(
+    filters.query.trim() ||
+    filters.from ||
+    filters.to ||
+    filters.size ||
+    filters.provider ||
+    filters.model ||
+    filters.favorites ||
+    filters.tag
+  );
+
+export const parseSize = (size: string) => {
+  const [width, height] = size.split('x').map(value => parseInt(value, 10));
+  return { width, height };
+};
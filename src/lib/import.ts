@@ -0,0 +1,486 @@
+// Reads archives made by the export (or a folder of images with a manifest)
+// and adds their images to an account.
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { MANIFEST_FILENAME } from '@/lib/archive';
+import { IMAGE_EXTENSIONS } from '@/lib/download';
+import { createThumbnail, imageBucket, removeStorageFiles, storedImageUrl } from '@/lib/storage';
+import { normalizeTag } from '@/lib/tags';
+import { tierLimitMessage } from '@/lib/tiers';
+import { tagImages } from '@/hooks/use-tags';
+
+export const CSV_MANIFEST_FILENAME = 'manifest.csv';
+
+// Columns of a CSV manifest, parameters are flattened and tags separated by ";"
+export const CSV_MANIFEST_COLUMNS = [
+  'file',
+  'prompt',
+  'seed',
+  'steps',
+  'guidance_scale',
+  'negative_prompt',
+  'aspect_ratio',
+  'provider',
+  'model',
+  'width',
+  'height',
+  'tags',
+  'is_favorite',
+  'is_private',
+  'created_at',
+] as const;
+
+// Only the file and prompt are required, hand-written manifests may leave the rest out
+const manifestImageSchema = z.object({
+  file: z.string().trim().min(1),
+  prompt: z.string().trim().min(1),
+  seed: z.number().int().nullish(),
+  parameters: z.object({
+    steps: z.number().int().positive().nullish(),
+    guidance_scale: z.number().nonnegative().nullish(),
+    negative_prompt: z.string().nullish(),
+    aspect_ratio: z.string().nullish(),
+    provider: z.string().nullish(),
+    model: z.string().nullish(),
+  }).nullish(),
+  width: z.number().int().positive().nullish(),
+  height: z.number().int().positive().nullish(),
+  tags: z.array(z.string()).nullish(),
+  is_favorite: z.boolean().nullish(),
+  is_private: z.boolean().nullish(),
+  created_at: z.string().datetime({ offset: true }).nullish(),
+});
+
+// Entries are checked one by one so a bad entry doesn't reject the whole manifest
+const manifestSchema = z.object({
+  version: z.number().int().optional(),
+  images: z.array(z.unknown()),
+});
+
+export type ImportEntry = z.infer<typeof manifestImageSchema>;
+
+export type ImportStatus = 'imported' | 'duplicate' | 'failed';
+
+export type ImportResult = {
+  file: string;
+  status: ImportStatus;
+  message?: string;
+  imageId?: string;
+};
+
+export type ImportSource = {
+  entries: ImportEntry[];
+  // Entries that didn't pass validation, reported as failed without importing
+  invalid: ImportResult[];
+  // Files by their path relative to the manifest
+  files: Map<string, Blob>;
+};
+
+const MIME_TYPES = Object.fromEntries(
+  Object.entries(IMAGE_EXTENSIONS).map(([type, extension]) => [extension, type])
+);
+
+const fileExtension = (path: string) =>
+  path.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase().replace('jpeg', 'jpg') ?? '';
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+// RFC 4180 style: quoted fields may hold commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines, usually a trailing newline
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Empty cells are left out, values that don't parse are kept as text so the
+// schema reports them
+const csvNumber = (value: string) => (value === '' ? undefined : Number.isNaN(Number(value)) ? value : Number(value));
+const csvBoolean = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '') return undefined;
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  return value;
+};
+const csvText = (value: string) => (value === '' ? undefined : value);
+
+const csvRowToManifestImage = (row: Record<string, string>) => ({
+  file: row.file,
+  prompt: row.prompt,
+  seed: csvNumber(row.seed),
+  parameters: {
+    steps: csvNumber(row.steps),
+    guidance_scale: csvNumber(row.guidance_scale),
+    negative_prompt: csvText(row.negative_prompt),
+    aspect_ratio: csvText(row.aspect_ratio),
+    provider: csvText(row.provider),
+    model: csvText(row.model),
+  },
+  width: csvNumber(row.width),
+  height: csvNumber(row.height),
+  tags: row.tags ? row.tags.split(';') : undefined,
+  is_favorite: csvBoolean(row.is_favorite),
+  is_private: csvBoolean(row.is_private),
+  created_at: csvText(row.created_at),
+});
+
+const parseManifestCsv = (text: string): unknown[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(column => column.trim().toLowerCase());
+  if (!columns.includes('file') || !columns.includes('prompt')) {
+    throw new Error('The CSV manifest needs at least "file" and "prompt" columns');
+  }
+  return rows.map(cells => csvRowToManifestImage(
+    Object.fromEntries(CSV_MANIFEST_COLUMNS.map(column => {
+      const index = columns.indexOf(column);
+      return [column, index === -1 ? '' : (cells[index] ?? '').trim()];
+    }))
+  ));
+};
+
+const parseManifestJson = (text: string): unknown[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The manifest is not valid JSON');
+  }
+  // A bare array of entries is accepted too
+  const result = manifestSchema.safeParse(Array.isArray(json) ? { images: json } : json);
+  if (!result.success) {
+    throw new Error(`The manifest is not in the expected format (${formatIssues(result.error)})`);
+  }
+  return result.data.images;
+};
+
+const validateEntries = (raw: unknown[]): Pick<ImportSource, 'entries' | 'invalid'> => {
+  const entries: ImportEntry[] = [];
+  const invalid: ImportResult[] = [];
+  raw.forEach((item, index) => {
+    const result = manifestImageSchema.safeParse(item);
+    if (result.success) {
+      entries.push(result.data);
+    } else {
+      const file = typeof (item as { file?: unknown })?.file === 'string'
+        ? (item as { file: string }).file
+        : `Entry ${index + 1}`;
+      invalid.push({ file, status: 'failed', message: formatIssues(result.error) });
+    }
+  });
+  return { entries, invalid };
+};
+
+const readManifest = async (files: Map<string, Blob>) => {
+  const json = files.get(MANIFEST_FILENAME);
+  if (json) return validateEntries(parseManifestJson(await json.text()));
+  const csv = files.get(CSV_MANIFEST_FILENAME);
+  if (csv) return validateEntries(parseManifestCsv(await csv.text()));
+  throw new Error(`No ${MANIFEST_FILENAME} or ${CSV_MANIFEST_FILENAME} found`);
+};
+
+// Archives may have been zipped with an enclosing folder, paths are taken
+// relative to the folder holding the manifest
+const relativeToManifest = (paths: string[]) => {
+  const manifestPath = paths
+    .filter(path => [MANIFEST_FILENAME, CSV_MANIFEST_FILENAME].includes(baseName(path)))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  const root = manifestPath ? manifestPath.slice(0, -baseName(manifestPath).length) : '';
+  return (path: string) => (path.startsWith(root) ? path.slice(root.length) : null);
+};
+
+export const readImportZip = async (zipFile: Blob): Promise<ImportSource> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(zipFile);
+  } catch {
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const paths = Object.values(zip.files)
+    .filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'))
+    .map(entry => entry.name);
+  const relative = relativeToManifest(paths);
+  const files = new Map<string, Blob>();
+  for (const path of paths) {
+    const relativePath = relative(path);
+    if (relativePath) files.set(relativePath, await zip.file(path)!.async('blob'));
+  }
+
+  return { ...(await readManifest(files)), files };
+};
+
+// Files picked from a folder carry their path in webkitRelativePath
+export const readImportFolder = async (picked: File[]): Promise<ImportSource> => {
+  const byPath = new Map(picked.map(file => [file.webkitRelativePath || file.name, file]));
+  const relative = relativeToManifest([...byPath.keys()]);
+  const files = new Map<string, Blob>();
+  byPath.forEach((file, path) => {
+    const relativePath = relative(path);
+    if (relativePath) files.set(relativePath, file);
+  });
+
+  return { ...(await readManifest(files)), files };
+};
+
+// The manifest path, or the bare file name when the layout differs
+const findFile = (files: Map<string, Blob>, path: string) => {
+  const normalized = path.replace(/^\.?\//, '');
+  const exact = files.get(normalized);
+  if (exact) return exact;
+  const name = baseName(normalized);
+  const matches = [...files.keys()].filter(key => baseName(key) === name);
+  return matches.length === 1 ? files.get(matches[0]) : undefined;
+};
+
+const readDimensions = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return { width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const duplicateKey = (prompt: string, createdAt: string) => `${new Date(createdAt).getTime()}:${prompt}`;
+
+// SHA-256 of the file, finds duplicates among entries without a creation time
+const contentHash = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const hasImageWithHash = async (userId: string, hash: string) => {
+  const { data, error } = await supabase
+    .from('images')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('content_hash', hash)
+    .is('deleted_at', null)
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0;
+};
+
+// Images of the user with the same prompt and creation time as an entry,
+// e.g. from importing the same archive twice
+const findExistingImages = async (userId: string, entries: ImportEntry[]) => {
+  const createdAts = [...new Set(entries.flatMap(entry => (entry.created_at ? [entry.created_at] : [])))];
+  const existing = new Set<string>();
+  if (createdAts.length === 0) return existing;
+
+  const { data, error } = await supabase
+    .from('images')
+    .select('prompt, created_at')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .in('created_at', createdAts);
+
+  if (error) {
+    throw error;
+  }
+  for (const row of data ?? []) {
+    if (row.created_at) existing.add(duplicateKey(row.prompt, row.created_at));
+  }
+  return existing;
+};
+
+const importEntry = async (
+  userId: string,
+  entry: ImportEntry,
+  blob: Blob,
+  index: number,
+  hash: string,
+  defaultPrivate: boolean
+): Promise<string> => {
+  const extension = fileExtension(entry.file);
+  const mimeType = IMAGE_EXTENSIONS[blob.type] ? blob.type : MIME_TYPES[extension];
+  if (!mimeType) {
+    throw new Error('Not a supported image type');
+  }
+
+  // Files from a ZIP have no type, storage needs it to serve them
+  const file = new Blob([blob], { type: mimeType });
+  const dimensions = entry.width && entry.height
+    ? { width: entry.width, height: entry.height }
+    : await readDimensions(file);
+  const timestamp = `${Date.now()}-${index}`;
+  const filePath = `${userId}/${timestamp}-import.${IMAGE_EXTENSIONS[mimeType]}`;
+  const isPrivate = entry.is_private ?? defaultPrivate;
+  const bucket = imageBucket(isPrivate);
+
+  const { error: uploadError } = await supabase
+    .storage
+    .from(bucket)
+    .upload(filePath, file, { contentType: mimeType });
+
+  if (uploadError) {
+    throw uploadError;
+  }
+
+  // A missing thumbnail only means grids fall back to the full image
+  let thumbnail: { path: string; size: number } | null = null;
+  try {
+    const thumbnailBlob = await createThumbnail(file);
+    const thumbnailPath = `${userId}/thumbnails/${timestamp}-import.webp`;
+    const { error: thumbnailError } = await supabase
+      .storage
+      .from(bucket)
+      .upload(thumbnailPath, thumbnailBlob, { contentType: 'image/webp' });
+
+    if (thumbnailError) {
+      throw thumbnailError;
+    }
+    thumbnail = { path: thumbnailPath, size: thumbnailBlob.size };
+  } catch (error) {
+    console.error('Error creating thumbnail:', error);
+  }
+
+  const { parameters } = entry;
+  const { data: imageData, error: imageError } = await supabase
+    .from('images')
+    .insert({
+      prompt: entry.prompt,
+      image_url: storedImageUrl(filePath, isPrivate),
+      storage_path: filePath,
+      thumbnail_path: thumbnail?.path ?? null,
+      user_id: userId,
+      width: dimensions.width,
+      height: dimensions.height,
+      provider: parameters?.provider ?? null,
+      model: parameters?.model ?? null,
+      aspect_ratio: parameters?.aspect_ratio ?? null,
+      seed: entry.seed ?? null,
+      steps: parameters?.steps ?? null,
+      guidance_scale: parameters?.guidance_scale ?? null,
+      negative_prompt: parameters?.negative_prompt || null,
+      is_favorite: entry.is_favorite ?? false,
+      is_private: isPrivate,
+      file_size: file.size + (thumbnail?.size ?? 0),
+      origin: 'imported',
+      content_hash: hash,
+      ...(entry.created_at ? { created_at: entry.created_at } : {}),
+    })
+    .select('id')
+    .single();
+
+  if (imageError) {
+    await removeStorageFiles(thumbnail ? [filePath, thumbnail.path] : [filePath]).catch(error =>
+      console.error('Error removing uploaded files:', error)
+    );
+    throw imageError;
+  }
+
+  // Missing tags only make the image harder to find, not worth failing over
+  const tags = [...new Set((entry.tags ?? []).map(normalizeTag).filter((tag): tag is string => !!tag))];
+  try {
+    await tagImages(userId, [imageData.id], tags);
+  } catch (error) {
+    console.error('Error tagging image:', error);
+  }
+
+  return imageData.id;
+};
+
+// One at a time, so storage and privacy limits are checked against the images
+// imported before. Each entry is reported through onResult as it finishes.
+// Entries that don't say whether they are private get defaultPrivate.
+export const importImages = async (
+  userId: string,
+  source: ImportSource,
+  defaultPrivate: boolean,
+  onResult: (result: ImportResult) => void
+): Promise<ImportResult[]> => {
+  const results: ImportResult[] = [];
+  const report = (result: ImportResult) => {
+    results.push(result);
+    onResult(result);
+  };
+
+  source.invalid.forEach(report);
+
+  const existing = await findExistingImages(userId, source.entries);
+  const seenFiles = new Set<string>();
+  const seenHashes = new Set<string>();
+  const reportDuplicate = (entry: ImportEntry) =>
+    report({ file: entry.file, status: 'duplicate', message: 'Already in your history' });
+
+  for (const [index, entry] of source.entries.entries()) {
+    const key = entry.created_at ? duplicateKey(entry.prompt, entry.created_at) : null;
+    if (seenFiles.has(entry.file) || (key && existing.has(key))) {
+      reportDuplicate(entry);
+      continue;
+    }
+    seenFiles.add(entry.file);
+
+    const blob = findFile(source.files, entry.file);
+    if (!blob) {
+      report({ file: entry.file, status: 'failed', message: 'File not found' });
+      continue;
+    }
+
+    try {
+      // Same file imported before, whatever the manifest says about it
+      const hash = await contentHash(blob);
+      if (seenHashes.has(hash) || await hasImageWithHash(userId, hash)) {
+        reportDuplicate(entry);
+        continue;
+      }
+
+      const imageId = await importEntry(userId, entry, blob, index, hash, defaultPrivate);
+      seenHashes.add(hash);
+      if (key) existing.add(key);
+      report({ file: entry.file, status: 'imported', imageId });
+    } catch (error) {
+      console.error(`Error importing ${entry.file}:`, error);
+      report({
+        file: entry.file,
+        status: 'failed',
+        message: tierLimitMessage(error) ?? ((error as { message?: string }).message || 'Could not be saved'),
+      });
+    }
+  }
+
+  return results;
+};
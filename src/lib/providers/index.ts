@@ -0,0 +1,45 @@
+import { ImageProvider } from './types';
+import { localProvider } from './local';
+import { unsplashProvider } from './unsplash';
+
+export type {
+  ImageProvider,
+  GenerationRequest,
+  GenerationResult,
+  ProviderCapabilities,
+  UpscaleRequest,
+} from './types';
+
+export const DEFAULT_PROVIDER_ID = 'unsplash';
+
+const providers = new Map<string, ImageProvider>();
+
+export const registerProvider = (provider: ImageProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): ImageProvider | undefined => providers.get(id);
+
+export const listProviders = (): ImageProvider[] => Array.from(providers.values());
+
+// The active provider is picked with VITE_IMAGE_PROVIDER, e.g. "local" for offline development
+export const getActiveProvider = (): ImageProvider => {
+  const configuredId = import.meta.env.VITE_IMAGE_PROVIDER || DEFAULT_PROVIDER_ID;
+  const provider = providers.get(configuredId);
+
+  if (!provider) {
+    console.warn(`Unknown image provider "${configuredId}", falling back to "${DEFAULT_PROVIDER_ID}"`);
+    return providers.get(DEFAULT_PROVIDER_ID)!;
+  }
+
+  return provider;
+};
+
+// The active provider when it can upscale, otherwise the local resampler
+export const getUpscaleProvider = (): ImageProvider => {
+  const provider = getActiveProvider();
+  return provider.upscale ? provider : localProvider;
+};
+
+registerProvider(unsplashProvider);
+registerProvider(localProvider);
@@ -0,0 +1,247 @@
+import { GenerationRequest, GenerationResult, ImageProvider, UpscaleRequest } from './types';
+import type { UpscaleWorkerResponse } from './upscale.worker';
+import { creditCostForImage } from '@/lib/credits';
+
+// Hash a string into a 32-bit seed (FNV-1a)
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG so the same prompt and seed always render the same image
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const canvasToBlob = async (
+  canvas: OffscreenCanvas | HTMLCanvasElement,
+  type = 'image/png',
+  quality?: number
+): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode canvas'));
+      }
+    }, type, quality);
+  });
+};
+
+const renderProceduralImage = (
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  request: GenerationRequest
+) => {
+  const { prompt, width, height, seed, steps, guidanceScale, negativePrompt } = request;
+  const random = createRandom(hashString(prompt.trim().toLowerCase()) ^ seed);
+  // Higher guidance gives more saturated colours, the negative prompt pushes the palette away
+  const saturation = 30 + Math.min(guidanceScale, 20) * 3;
+  const hueShift = negativePrompt ? hashString(negativePrompt.toLowerCase()) % 180 : 0;
+  const baseHue = Math.floor(random() * 360) + hueShift;
+  const palette = Array.from({ length: 4 }, (_, i) =>
+    `hsl(${(baseHue + i * (40 + random() * 50)) % 360}, ${saturation + random() * 20}%, ${35 + random() * 35}%)`
+  );
+
+  // Background gradient
+  const background = ctx.createLinearGradient(0, 0, width * random(), height);
+  background.addColorStop(0, palette[0]);
+  background.addColorStop(1, palette[1]);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+
+  // Soft blobs, one batch per word so longer prompts get busier images
+  const words = prompt.split(/\s+/).filter(Boolean);
+  const blobCount = 8 + Math.min(words.length, 12) * 2;
+  ctx.globalCompositeOperation = 'lighter';
+  for (let i = 0; i < blobCount; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    const radius = (0.05 + random() * 0.3) * Math.max(width, height);
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, palette[2 + (i % 2)]);
+    gradient.addColorStop(1, 'transparent');
+    ctx.globalAlpha = 0.15 + random() * 0.35;
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Flowing lines, more steps add more detail
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.lineWidth = Math.max(1, width / 400);
+  const lineCount = 2 + Math.round(steps / 5);
+  for (let i = 0; i < lineCount; i++) {
+    const amplitude = height * (0.05 + random() * 0.15);
+    const frequency = 1 + random() * 4;
+    const offset = random() * height;
+    const phase = random() * Math.PI * 2;
+    ctx.globalAlpha = 0.2 + random() * 0.3;
+    ctx.strokeStyle = palette[i % palette.length];
+    ctx.beginPath();
+    for (let x = 0; x <= width; x += 8) {
+      const y = offset + Math.sin((x / width) * Math.PI * frequency + phase) * amplitude;
+      if (x === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    }
+    ctx.stroke();
+  }
+
+  ctx.globalAlpha = 1;
+};
+
+// Draw an image over the whole canvas, cropping it to the canvas' aspect ratio
+export const drawImageCover = (
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  image: ImageBitmap,
+  width: number,
+  height: number
+) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Image-to-image: the procedural render is laid over the reference, the
+// strength deciding how much of it shows through. With a mask only the masked
+// part of the render is used.
+const renderOverSource = async (
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  request: GenerationRequest,
+  source: Blob
+) => {
+  const { width, height, strength = 1 } = request;
+  const bitmap = await createImageBitmap(source);
+  try {
+    drawImageCover(ctx, bitmap, width, height);
+  } finally {
+    bitmap.close();
+  }
+
+  const layer = createCanvas(width, height);
+  const layerCtx = layer.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!layerCtx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  renderProceduralImage(layerCtx, request);
+
+  if (request.mask) {
+    const mask = await createImageBitmap(request.mask);
+    try {
+      layerCtx.globalCompositeOperation = 'destination-in';
+      layerCtx.drawImage(mask, 0, 0, width, height);
+      layerCtx.globalCompositeOperation = 'source-over';
+    } finally {
+      mask.close();
+    }
+  }
+
+  ctx.globalAlpha = strength;
+  ctx.drawImage(layer, 0, 0);
+  ctx.globalAlpha = 1;
+};
+
+// Lanczos3 resampling in a Web Worker, so large images don't freeze the page
+const upscaleInWorker = ({ image, scale, signal }: UpscaleRequest) => new Promise<GenerationResult>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const worker = new Worker(new URL('./upscale.worker.ts', import.meta.url), { type: 'module' });
+
+  const finish = () => {
+    signal?.removeEventListener('abort', handleAbort);
+    worker.terminate();
+  };
+  const handleAbort = () => {
+    finish();
+    reject(new DOMException('Upscale cancelled', 'AbortError'));
+  };
+  signal?.addEventListener('abort', handleAbort, { once: true });
+
+  worker.onmessage = (event: MessageEvent<UpscaleWorkerResponse>) => {
+    finish();
+    if ('error' in event.data) {
+      reject(new Error(event.data.error));
+      return;
+    }
+    const { blob, width, height } = event.data;
+    resolve({ blob, width, height, model: 'lanczos3' });
+  };
+  worker.onerror = (event) => {
+    finish();
+    reject(new Error(event.message || 'Upscaling failed'));
+  };
+
+  worker.postMessage({ image, scale });
+});
+
+// Deterministic offline provider that paints a procedural image from the prompt
+export const localProvider: ImageProvider = {
+  id: 'local',
+  name: 'Local (procedural)',
+  models: ['procedural-v1'],
+  defaultModel: 'procedural-v1',
+  capabilities: {
+    offline: true,
+    runtime: 'client',
+    maxWidth: 2048,
+    maxHeight: 2048,
+    outputMimeType: 'image/png',
+    imageToImage: true,
+    inpainting: true,
+  },
+  estimateCost: ({ width, height }) => creditCostForImage(width, height),
+  generate: async (request) => {
+    const { width, height, model, signal } = request;
+    signal?.throwIfAborted();
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    if (request.sourceImage) {
+      await renderOverSource(ctx, request, request.sourceImage);
+    } else {
+      renderProceduralImage(ctx, request);
+    }
+    const blob = await canvasToBlob(canvas, 'image/png');
+    signal?.throwIfAborted();
+
+    return {
+      blob,
+      model: model || 'procedural-v1',
+      width,
+      height,
+    };
+  },
+  upscale: upscaleInWorker,
+};
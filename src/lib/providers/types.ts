@@ -0,0 +1,62 @@
+// Shared types for the pluggable image generation providers
+
+export type ProviderCapabilities = {
+  // Whether the provider works without network access
+  offline: boolean;
+  // Where queued jobs run: "server" providers are handled by the generation-worker
+  // edge function, "client" providers are rendered in the browser
+  runtime: 'client' | 'server';
+  maxWidth: number;
+  maxHeight: number;
+  outputMimeType: string;
+  // Whether a reference image can be given with the prompt
+  imageToImage: boolean;
+  // Whether a mask can be given with the reference image to repaint part of it
+  inpainting: boolean;
+};
+
+export type GenerationRequest = {
+  prompt: string;
+  width: number;
+  height: number;
+  seed: number;
+  steps: number;
+  guidanceScale: number;
+  negativePrompt?: string;
+  model?: string;
+  // Image-to-image: the picture to start from and how far to move away from it,
+  // 0 keeps it as it is and 1 ignores it
+  sourceImage?: Blob;
+  strength?: number;
+  // Inpainting: opaque pixels mark the part of the reference to repaint
+  mask?: Blob;
+  // Aborts the generation when the user cancels
+  signal?: AbortSignal;
+};
+
+export type UpscaleRequest = {
+  image: Blob;
+  // Output size is the image's size times this
+  scale: number;
+  signal?: AbortSignal;
+};
+
+export type GenerationResult = {
+  blob: Blob;
+  model: string;
+  width: number;
+  height: number;
+};
+
+export type ImageProvider = {
+  id: string;
+  name: string;
+  models: string[];
+  defaultModel: string;
+  capabilities: ProviderCapabilities;
+  // Credits charged for a single generation with these settings
+  estimateCost: (request: GenerationRequest) => number;
+  generate: (request: GenerationRequest) => Promise<GenerationResult>;
+  // Enlarges an existing image; providers without it fall back to the local resampler
+  upscale?: (request: UpscaleRequest) => Promise<GenerationResult>;
+};
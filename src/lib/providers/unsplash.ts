@@ -0,0 +1,79 @@
+import { ImageProvider } from './types';
+import { creditCostForImage } from '@/lib/credits';
+
+const UNSPLASH_API_URL = 'https://api.unsplash.com';
+
+// Signed-in generations run in the generation-worker with its own key, this one
+// is only needed to generate without an account
+const accessKey = import.meta.env.VITE_UNSPLASH_ACCESS_KEY;
+
+const orientation = (width: number, height: number) =>
+  width === height ? 'squarish' : width > height ? 'landscape' : 'portrait';
+
+const imageSize = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return { width: bitmap.width, height: bitmap.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Picks a random photo matching the prompt through the Unsplash API and has
+// Unsplash crop it to the requested size
+export const unsplashProvider: ImageProvider = {
+  id: 'unsplash',
+  name: 'Unsplash',
+  models: ['random'],
+  defaultModel: 'random',
+  capabilities: {
+    offline: false,
+    runtime: 'server',
+    maxWidth: 1600,
+    maxHeight: 1600,
+    outputMimeType: 'image/jpeg',
+    imageToImage: false,
+    inpainting: false,
+  },
+  estimateCost: ({ width, height }) => creditCostForImage(width, height),
+  generate: async ({ prompt, width, height, model, signal }) => {
+    if (!accessKey) {
+      throw new Error('Sign in to generate images with Unsplash');
+    }
+
+    const query = new URLSearchParams({ query: prompt, orientation: orientation(width, height) });
+    const photoResponse = await fetch(`${UNSPLASH_API_URL}/photos/random?${query}`, {
+      headers: { Authorization: `Client-ID ${accessKey}`, 'Accept-Version': 'v1' },
+      signal,
+    });
+
+    if (!photoResponse.ok) {
+      throw new Error(`Unsplash request failed with status ${photoResponse.status}`);
+    }
+
+    const photo: { urls: { raw: string } } = await photoResponse.json();
+    const imageUrl = new URL(photo.urls.raw);
+    imageUrl.searchParams.set('w', String(width));
+    imageUrl.searchParams.set('h', String(height));
+    imageUrl.searchParams.set('fit', 'crop');
+    imageUrl.searchParams.set('fm', 'jpg');
+    const response = await fetch(imageUrl, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Unsplash request failed with status ${response.status}`);
+    }
+
+    const blob = await response.blob();
+
+    if (!blob || blob.size === 0) {
+      throw new Error("Empty image blob received");
+    }
+
+    // Photos smaller than the requested size come back smaller, record what arrived
+    return {
+      blob,
+      model: model || 'random',
+      ...(await imageSize(blob)),
+    };
+  },
+};
@@ -0,0 +1,43 @@
+// Runs the local upscaler off the main thread, see localProvider.upscale
+import { resampleLanczos } from '@/lib/resample';
+
+export type UpscaleWorkerRequest = {
+  image: Blob;
+  scale: number;
+};
+
+export type UpscaleWorkerResponse =
+  | { blob: Blob; width: number; height: number }
+  | { error: string };
+
+const respond = (message: UpscaleWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<UpscaleWorkerRequest>) => {
+  try {
+    const { image, scale } = event.data;
+    const bitmap = await createImageBitmap(image);
+    const source = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const sourceCtx = source.getContext('2d');
+    if (!sourceCtx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    sourceCtx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const pixels = sourceCtx.getImageData(0, 0, source.width, source.height);
+    const width = Math.round(source.width * scale);
+    const height = Math.round(source.height * scale);
+    const resampled = resampleLanczos(pixels, width, height);
+
+    const output = new OffscreenCanvas(width, height);
+    const outputCtx = output.getContext('2d');
+    if (!outputCtx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    outputCtx.putImageData(new ImageData(resampled.data, width, height), 0, 0);
+
+    respond({ blob: await output.convertToBlob({ type: 'image/png' }), width, height });
+  } catch (error) {
+    respond({ error: error instanceof Error ? error.message : 'Upscaling failed' });
+  }
+};
@@ -0,0 +1,111 @@
+// Lanczos resampling of RGBA pixels, used by the local upscaler. Kept free of
+// DOM APIs so it can run in a Web Worker.
+
+export type Pixels = {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+};
+
+// Lanczos3: three lobes of the windowed sinc on each side
+const LOBES = 3;
+
+const lanczos = (x: number) => {
+  if (x === 0) return 1;
+  if (Math.abs(x) >= LOBES) return 0;
+  const px = Math.PI * x;
+  return (LOBES * Math.sin(px) * Math.sin(px / LOBES)) / (px * px);
+};
+
+type Contributions = {
+  // First source pixel contributing to each output pixel
+  start: Int32Array;
+  // Normalised weights of the contributing source pixels, per output pixel
+  weights: Float32Array[];
+};
+
+const contributions = (sourceSize: number, targetSize: number): Contributions => {
+  const scale = targetSize / sourceSize;
+  // When shrinking the filter widens so every source pixel is still sampled
+  const filterScale = Math.max(1, 1 / scale);
+  const support = LOBES * filterScale;
+  const start = new Int32Array(targetSize);
+  const weights: Float32Array[] = [];
+
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) / scale;
+    const first = Math.max(0, Math.floor(center - support));
+    const last = Math.min(sourceSize, Math.ceil(center + support));
+    const pixelWeights = new Float32Array(last - first);
+    let total = 0;
+    for (let j = first; j < last; j++) {
+      const weight = lanczos((j + 0.5 - center) / filterScale);
+      pixelWeights[j - first] = weight;
+      total += weight;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < pixelWeights.length; k++) {
+        pixelWeights[k] /= total;
+      }
+    }
+    start[i] = first;
+    weights.push(pixelWeights);
+  }
+
+  return { start, weights };
+};
+
+// Separable: rows first into a float buffer, then columns into the output.
+// Generated images are opaque, so alpha is filtered like any other channel.
+export const resampleLanczos = (source: Pixels, width: number, height: number): Pixels => {
+  const horizontal = contributions(source.width, width);
+  const vertical = contributions(source.height, height);
+  const rows = new Float32Array(width * source.height * 4);
+
+  for (let y = 0; y < source.height; y++) {
+    const rowOffset = y * source.width;
+    for (let x = 0; x < width; x++) {
+      const first = horizontal.start[x];
+      const pixelWeights = horizontal.weights[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < pixelWeights.length; k++) {
+        const index = (rowOffset + first + k) * 4;
+        const weight = pixelWeights[k];
+        r += source.data[index] * weight;
+        g += source.data[index + 1] * weight;
+        b += source.data[index + 2] * weight;
+        a += source.data[index + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      rows[out] = r;
+      rows[out + 1] = g;
+      rows[out + 2] = b;
+      rows[out + 3] = a;
+    }
+  }
+
+  // Uint8ClampedArray rounds and clamps the overshoot Lanczos produces at edges
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const first = vertical.start[y];
+    const pixelWeights = vertical.weights[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < pixelWeights.length; k++) {
+        const index = ((first + k) * width + x) * 4;
+        const weight = pixelWeights[k];
+        r += rows[index] * weight;
+        g += rows[index + 1] * weight;
+        b += rows[index + 2] * weight;
+        a += rows[index + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      data[out] = r;
+      data[out + 1] = g;
+      data[out + 2] = b;
+      data[out + 3] = a;
+    }
+  }
+
+  return { data, width, height };
+};
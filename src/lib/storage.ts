@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+import { canvasToBlob, createCanvas } from '@/lib/providers/local';
+import type { GeneratedImage } from '@/types/database';
+
+// Files for an image live under `${userId}/` in this bucket, thumbnails under `${userId}/thumbnails/`
+export const IMAGES_BUCKET = 'images';
+// Same layout for private images, plus reference images and masks for
+// image-to-image under `${userId}/sources/`. Only the owner can read it,
+// everyone else gets nothing but what the image page shows.
+export const PRIVATE_IMAGES_BUCKET = 'private-images';
+// Signed URLs for private files last this long; lists refetch well within it
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+const THUMBNAIL_SIZE = 320;
+// Trashed images are purged after this long, see public.purge_expired_trash
+export const TRASH_RETENTION_DAYS = 30;
+// Storage accepts up to 1000 paths per remove call
+const REMOVE_CHUNK_SIZE = 1000;
+
+type ImageFiles = {
+  imageUrl: string;
+  storagePath: string | null;
+  thumbnailPath: string | null;
+};
+
+export const imageBucket = (isPrivate: boolean) => isPrivate ? PRIVATE_IMAGES_BUCKET : IMAGES_BUCKET;
+
+export const publicImageUrl = (path: string) =>
+  supabase.storage.from(IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+
+// What images.image_url records for a file when it is saved. The URL goes stale
+// when the image's privacy changes and its files move, so withImageUrls
+// builds display URLs from storage_path instead.
+export const storedImageUrl = (path: string, isPrivate: boolean) =>
+  supabase.storage.from(imageBucket(isPrivate)).getPublicUrl(path).data.publicUrl;
+
+// Rows saved before storage paths were recorded only have the public URL
+export const storagePathFromUrl = (url: string): string | null => {
+  const match = url.match(/\/storage\/v1\/object\/public\/images\/([^?]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+export const imageFilePaths = (image: ImageFiles): string[] =>
+  [image.storagePath || storagePathFromUrl(image.imageUrl), image.thumbnailPath]
+    .filter((path): path is string => Boolean(path));
+
+// Remove files from both buckets, a file can be in either while it is being
+// moved. Anything left behind by a failure here is picked up later by the
+// storage-sweeper edge function.
+export const removeStorageFiles = async (paths: string[]) => {
+  for (const bucket of [IMAGES_BUCKET, PRIVATE_IMAGES_BUCKET]) {
+    for (let i = 0; i < paths.length; i += REMOVE_CHUNK_SIZE) {
+      const { error } = await supabase
+        .storage
+        .from(bucket)
+        .remove(paths.slice(i, i + REMOVE_CHUNK_SIZE));
+
+      if (error) {
+        throw error;
+      }
+    }
+  }
+};
+
+export const isSourceImagePath = (userId: string, path: string) =>
+  path.startsWith(`${userId}/sources/`);
+
+// Keep a reference image or mask in the bucket so the images made from it can point at it
+export const uploadSourceImage = async (userId: string, blob: Blob, name = 'reference'): Promise<string> => {
+  const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  const path = `${userId}/sources/${Date.now()}-${name}.${extension}`;
+  const { error } = await supabase
+    .storage
+    .from(PRIVATE_IMAGES_BUCKET)
+    .upload(path, blob, { contentType: blob.type || undefined });
+
+  if (error) {
+    throw error;
+  }
+  return path;
+};
+
+// One of the user's own files. Files saved before the private bucket existed
+// are still in the public one until the storage-sweeper moves them.
+export const downloadStorageFile = async (path: string): Promise<Blob> => {
+  const { data, error } = await supabase.storage.from(PRIVATE_IMAGES_BUCKET).download(path);
+  if (data) {
+    return data;
+  }
+
+  const { data: legacyData } = await supabase.storage.from(IMAGES_BUCKET).download(path);
+  if (!legacyData) {
+    throw error ?? new Error(`Failed to fetch ${path}`);
+  }
+  return legacyData;
+};
+
+// Move an image's files to the bucket for its visibility. Files that don't
+// make it are moved by the storage-sweeper later.
+export const moveImageFiles = async (paths: string[], isPrivate: boolean) => {
+  const from = imageBucket(!isPrivate);
+  const to = imageBucket(isPrivate);
+
+  for (const path of paths) {
+    const { data, error } = await supabase.storage.from(from).download(path);
+    // Already moved
+    if (!data) {
+      console.error(`Error moving ${path}:`, error);
+      continue;
+    }
+
+    const { error: uploadError } = await supabase
+      .storage
+      .from(to)
+      .upload(path, data, { contentType: data.type || undefined, upsert: true });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+
+    await supabase.storage.from(from).remove([path]);
+  }
+};
+
+// Fill in the URLs grids and image pages show. Private images are signed
+// for their owner, falling back to the public bucket for files not moved yet;
+// public ones point at the images bucket whatever image_url recorded;
+// reference images are only shown to their owner.
+export const withImageUrls = async (images: GeneratedImage[]): Promise<GeneratedImage[]> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const viewerId = session?.user.id;
+
+  const signedPaths = new Set<string>();
+  for (const image of images) {
+    if (image.userId !== viewerId) continue;
+    if (image.isPrivate && image.storagePath) signedPaths.add(image.storagePath);
+    if (image.isPrivate && image.thumbnailPath) signedPaths.add(image.thumbnailPath);
+    if (image.sourceImagePath) signedPaths.add(image.sourceImagePath);
+  }
+
+  const signedUrls = new Map<string, string>();
+  if (signedPaths.size > 0) {
+    const { data, error } = await supabase
+      .storage
+      .from(PRIVATE_IMAGES_BUCKET)
+      .createSignedUrls([...signedPaths], SIGNED_URL_EXPIRY_SECONDS);
+
+    if (error) {
+      console.error('Error signing image URLs:', error);
+    }
+    for (const entry of data ?? []) {
+      if (entry.path && entry.signedUrl && !entry.error) signedUrls.set(entry.path, entry.signedUrl);
+    }
+  }
+
+  const fileUrl = (path: string) => signedUrls.get(path) ?? publicImageUrl(path);
+
+  return images.map(image => {
+    const isOwn = image.userId === viewerId;
+    const signImage = image.isPrivate && isOwn;
+    return {
+      ...image,
+      imageUrl: image.storagePath
+        ? (signImage ? fileUrl(image.storagePath) : (image.isPrivate ? image.imageUrl : publicImageUrl(image.storagePath)))
+        : image.imageUrl,
+      thumbnailUrl: image.thumbnailPath
+        ? (signImage ? fileUrl(image.thumbnailPath) : publicImageUrl(image.thumbnailPath))
+        : null,
+      sourceImageUrl: isOwn && image.sourceImagePath ? fileUrl(image.sourceImagePath) : null,
+    };
+  });
+};
+
+// Downscaled WebP copy for grids, keeping the aspect ratio
+export const createThumbnail = async (blob: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return await canvasToBlob(canvas, 'image/webp', 0.8);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const daysUntilPurge = (deletedAt: string) => {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+};
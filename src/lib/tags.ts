@@ -0,0 +1,2 @@
+// Image tags, shared with the generation worker
+export * from '../../supabase/functions/_shared/tags.ts';
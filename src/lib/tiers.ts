@@ -0,0 +1,108 @@
+// Subscription tiers and their limits. The database enforces the same values
+// from public.subscription_tiers, keep both in sync.
+
+export type SubscriptionTierId = 'free' | 'pro' | 'team';
+
+export type TierLimits = {
+  id: SubscriptionTierId;
+  name: string;
+  // Longest side of a generated image, in pixels
+  maxResolution: number;
+  maxBatchSize: number;
+  dailyGenerations: number;
+  storageQuotaBytes: number;
+  // null means unlimited
+  maxPrivateImages: number | null;
+};
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+export const SUBSCRIPTION_TIERS: Record<SubscriptionTierId, TierLimits> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    maxResolution: 1024,
+    maxBatchSize: 1,
+    dailyGenerations: 20,
+    storageQuotaBytes: 500 * MB,
+    maxPrivateImages: 0,
+  },
+  pro: {
+    id: 'pro',
+    name: 'Pro',
+    maxResolution: 2048,
+    maxBatchSize: 4,
+    dailyGenerations: 200,
+    storageQuotaBytes: 10 * GB,
+    maxPrivateImages: 500,
+  },
+  team: {
+    id: 'team',
+    name: 'Team',
+    maxResolution: 2048,
+    maxBatchSize: 4,
+    dailyGenerations: 1000,
+    storageQuotaBytes: 100 * GB,
+    maxPrivateImages: null,
+  },
+};
+
+// Older accounts may still carry the "premium" tier name
+export const resolveTier = (tier: string | null | undefined): TierLimits => {
+  if (tier === 'premium') return SUBSCRIPTION_TIERS.pro;
+  return SUBSCRIPTION_TIERS[tier as SubscriptionTierId] || SUBSCRIPTION_TIERS.free;
+};
+
+// Cheapest tier that lifts a given limit, used for upgrade hints
+export const upgradeTierFor = (isAllowed: (limits: TierLimits) => boolean): TierLimits | null =>
+  Object.values(SUBSCRIPTION_TIERS).find(isAllowed) || null;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1).replace(/\.0$/, '')} GB`;
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1).replace(/\.0$/, '')} MB`;
+  return `${Math.ceil(bytes / 1024)} KB`;
+};
+
+// Errors raised by the tier checks in the database carry a readable detail
+export const tierLimitMessage = (error: unknown): string | null => {
+  if (typeof error !== 'object' || error === null) return null;
+  const { message, details } = error as { message?: string; details?: string };
+  if (!message?.includes('tier_limit_exceeded')) return null;
+  return details || 'This exceeds the limits of your plan.';
+};
+
+export type TierUsage = {
+  storageUsed: number;
+  generationsToday: number;
+  privateImages: number;
+};
+
+// Why a generation isn't allowed on this tier, or null when it is.
+// The database checks the same limits when the jobs are queued.
+export const tierLimitViolation = (
+  settings: { width: number; height: number; count: number; isPrivate: boolean },
+  tier: TierLimits,
+  usage?: TierUsage | null
+): string | null => {
+  if (Math.max(settings.width, settings.height) > tier.maxResolution) {
+    return `The ${tier.name} plan generates images up to ${tier.maxResolution}px per side.`;
+  }
+  if (settings.count > tier.maxBatchSize) {
+    return `The ${tier.name} plan generates up to ${tier.maxBatchSize} ${tier.maxBatchSize === 1 ? 'image' : 'images'} at once.`;
+  }
+  if (settings.isPrivate && tier.maxPrivateImages === 0) {
+    return `Private images are not available on the ${tier.name} plan.`;
+  }
+  if (!usage) return null;
+  if (usage.generationsToday + settings.count > tier.dailyGenerations) {
+    return `The ${tier.name} plan allows ${tier.dailyGenerations} generations per day.`;
+  }
+  if (usage.storageUsed >= tier.storageQuotaBytes) {
+    return `Your ${tier.name} plan storage is full.`;
+  }
+  if (settings.isPrivate && tier.maxPrivateImages !== null && usage.privateImages + settings.count > tier.maxPrivateImages) {
+    return `The ${tier.name} plan allows up to ${tier.maxPrivateImages} private images.`;
+  }
+  return null;
+};
@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Download,
+  FolderMinus,
+  ImageIcon,
+  Loader2,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import ImageCard from '@/components/ImageCard';
+import EmptyState from '@/components/EmptyState';
+import CollectionFormDialog from '@/components/CollectionFormDialog';
+import ImageLightbox from '@/components/ImageLightbox';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenuItem } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  useCollection,
+  useDeleteCollection,
+  useRemoveFromCollection,
+  useReorderCollection,
+  useUpdateCollection,
+} from '@/hooks/use-collections';
+import { downloadImageArchive } from '@/lib/archive';
+
+// Move one id to where another one is, shifting the rest
+const moveBefore = (ids: string[], movedId: string, targetId: string) => {
+  const from = ids.indexOf(movedId);
+  const to = ids.indexOf(targetId);
+  if (from === -1 || to === -1) return ids;
+  const next = [...ids];
+  next.splice(from, 1);
+  next.splice(to, 0, movedId);
+  return next;
+};
+
+const CollectionDetail = () => {
+  const { collectionId } = useParams<{ collectionId: string }>();
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { data, isLoading: collectionLoading } = useCollection(collectionId);
+  const updateCollection = useUpdateCollection();
+  const deleteCollection = useDeleteCollection();
+  const removeFromCollection = useRemoveFromCollection();
+  const reorderCollection = useReorderCollection();
+  const navigate = useNavigate();
+  const [editOpen, setEditOpen] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  // Order shown while dragging, until the new order is saved
+  const [draftOrder, setDraftOrder] = useState<string[] | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [lightboxImageId, setLightboxImageId] = useState<string | null>(null);
+
+  // Handle loading state
+  if (isLoading || collectionLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <div className="flex-grow flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/" />;
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow">
+          <EmptyState
+            title="Collection not found"
+            description="It may have been deleted, or the link is wrong"
+            action={{
+              label: "All collections",
+              onClick: () => navigate('/collections')
+            }}
+          />
+        </main>
+      </div>
+    );
+  }
+
+  const { collection, images } = data;
+  const byId = new Map(images.map(image => [image.id, image]));
+  const orderedImages = draftOrder ? draftOrder.flatMap(id => byId.get(id) ?? []) : images;
+
+  const handleDragStart = (e: React.DragEvent, imageId: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', imageId);
+    setDraggedId(imageId);
+    setDraftOrder(images.map(image => image.id));
+  };
+
+  const handleDragOver = (e: React.DragEvent, imageId: string) => {
+    if (!draggedId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (imageId !== draggedId && draftOrder) {
+      setDraftOrder(moveBefore(draftOrder, draggedId, imageId));
+    }
+  };
+
+  // Fires after the drop, or when the drag is cancelled
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    const imageIds = draftOrder;
+    if (!imageIds || imageIds.every((id, index) => id === images[index]?.id)) {
+      setDraftOrder(null);
+      return;
+    }
+    reorderCollection.mutate(
+      { collectionId: collection.id, imageIds },
+      { onSettled: () => setDraftOrder(null) }
+    );
+  };
+
+  const handleDownloadAll = async () => {
+    setIsDownloading(true);
+    try {
+      const { added, failed } = await downloadImageArchive(images, collection.name);
+      if (failed.length === 0) {
+        toast.success(`Downloaded ${added} ${added === 1 ? 'image' : 'images'}`);
+      } else {
+        toast.warning(`Downloaded ${added} of ${images.length} images, some could not be fetched`);
+      }
+    } catch (error) {
+      console.error('Error downloading collection:', error);
+      toast.error('Failed to download collection');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDelete = () => {
+    deleteCollection.mutate(collection.id, {
+      onSuccess: () => navigate('/collections'),
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-6xl mx-auto py-8 px-4">
+          <Link to="/collections" className="inline-flex items-center text-sm text-gray-500 hover:text-imaginate-purple mb-4">
+            <ArrowLeft size={14} className="mr-1" />
+            All collections
+          </Link>
+
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between mb-8 gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-imaginate-dark">
+                {collection.name}
+              </h1>
+              {collection.description && (
+                <p className="text-gray-600 mt-1 whitespace-pre-line">
+                  {collection.description}
+                </p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">
+                {images.length === 1 ? '1 image' : `${images.length} images`}
+                {images.length > 1 && ' · Drag images to reorder'}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleDownloadAll} disabled={images.length === 0 || isDownloading}>
+                {isDownloading ? (
+                  <Loader2 size={16} className="mr-2 animate-spin" />
+                ) : (
+                  <Download size={16} className="mr-2" />
+                )}
+                Download
+              </Button>
+              <Button variant="outline" onClick={() => setEditOpen(true)}>
+                <Pencil size={16} className="mr-2" />
+                Edit
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-red-500 border-red-200 hover:bg-red-50">
+                    <Trash2 size={16} className="mr-2" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="flex items-center">
+                      <AlertTriangle className="text-red-500 mr-2" size={20} />
+                      Delete this collection?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The collection is removed, its images stay in your history.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={handleDelete}
+                      className="bg-red-500 hover:bg-red-600"
+                    >
+                      Delete Collection
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+
+          {orderedImages.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {orderedImages.map((image) => (
+                <div
+                  key={image.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, image.id)}
+                  onDragOver={(e) => handleDragOver(e, image.id)}
+                  onDrop={(e) => e.preventDefault()}
+                  onDragEnd={handleDragEnd}
+                  className={`relative cursor-move transition-opacity ${draggedId === image.id ? 'opacity-50' : ''}`}
+                >
+                  {image.id === collection.coverImageId && (
+                    <Badge className="absolute top-2 left-2 z-10 bg-imaginate-purple">Cover</Badge>
+                  )}
+                  <ImageCard
+                    image={image}
+                    onOpen={() => setLightboxImageId(image.id)}
+                    menuItems={
+                      <>
+                        <DropdownMenuItem
+                          onSelect={() => updateCollection.mutate(
+                            { collectionId: collection.id, coverImageId: image.id },
+                            { onSuccess: () => toast.success('Cover updated.') }
+                          )}
+                          disabled={image.id === collection.coverImageId}
+                        >
+                          <ImageIcon size={14} className="mr-2" />
+                          Set as cover
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => removeFromCollection.mutate({
+                            collectionId: collection.id,
+                            imageIds: [image.id],
+                          })}
+                        >
+                          <FolderMinus size={14} className="mr-2" />
+                          Remove from collection
+                        </DropdownMenuItem>
+                      </>
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              title="This collection is empty"
+              description="Add images from the menu on any image in your history"
+              action={{
+                label: "Go to history",
+                onClick: () => navigate('/history')
+              }}
+            />
+          )}
+        </div>
+      </main>
+
+      <ImageLightbox images={images} imageId={lightboxImageId} onImageChange={setLightboxImageId} />
+
+      <CollectionFormDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        title="Edit collection"
+        submitLabel="Save"
+        initialValues={{ name: collection.name, description: collection.description ?? '' }}
+        isSaving={updateCollection.isPending}
+        onSubmit={(values) => updateCollection.mutate(
+          { collectionId: collection.id, ...values },
+          { onSuccess: () => setEditOpen(false) }
+        )}
+      />
+    </div>
+  );
+};
+
+export default CollectionDetail;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { FolderOpen, Plus } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import EmptyState from '@/components/EmptyState';
+import CollectionFormDialog from '@/components/CollectionFormDialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCollections, useCreateCollection } from '@/hooks/use-collections';
+import { Collection } from '@/types/database';
+
+const CollectionCard: React.FC<{ collection: Collection }> = ({ collection }) => {
+  const { cover } = collection;
+  const coverUrl = cover ? (cover.thumbnailUrl ?? cover.imageUrl) : null;
+
+  return (
+    <Link to={`/collections/${collection.id}`} className="group">
+      <Card className="overflow-hidden h-full flex flex-col transition-shadow group-hover:shadow-md">
+        <div className="aspect-square bg-gray-100 flex items-center justify-center">
+          {coverUrl ? (
+            <img src={coverUrl} alt={collection.name} className="w-full h-full object-cover" loading="lazy" />
+          ) : (
+            <FolderOpen size={32} className="text-gray-400" />
+          )}
+        </div>
+        <div className="p-3">
+          <h3 className="font-medium truncate group-hover:text-imaginate-purple">{collection.name}</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {collection.imageCount === 1 ? '1 image' : `${collection.imageCount} images`}
+          </p>
+        </div>
+      </Card>
+    </Link>
+  );
+};
+
+const Collections = () => {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { data: collections = [], isLoading: collectionsLoading } = useCollections();
+  const createCollection = useCreateCollection();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  // Handle loading state
+  if (isLoading || collectionsLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <div className="flex-grow flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-6xl mx-auto py-8 px-4">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8 gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-imaginate-dark">
+                Collections
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Group your images into albums
+              </p>
+            </div>
+
+            <Button onClick={() => setCreateOpen(true)}>
+              <Plus size={16} className="mr-2" />
+              New Collection
+            </Button>
+          </div>
+
+          {collections.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {collections.map(collection => (
+                <CollectionCard key={collection.id} collection={collection} />
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              title="No collections yet"
+              description="Create a collection, then add images to it from their menu"
+              action={{
+                label: "Create a collection",
+                onClick: () => setCreateOpen(true)
+              }}
+            />
+          )}
+        </div>
+      </main>
+
+      <CollectionFormDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        title="New collection"
+        submitLabel="Create"
+        isSaving={createCollection.isPending}
+        onSubmit={(values) => createCollection.mutate(values, { onSuccess: () => setCreateOpen(false) })}
+      />
+    </div>
+  );
+};
+
+export default Collections;
@@ -4,14 +4,28 @@ import Navbar from '@/components/Navbar';
 import ImageGenerator from '@/components/ImageGenerator';
 import ImageCard from '@/components/ImageCard';
 import EmptyState from '@/components/EmptyState';
-import { useImage } from '@/contexts/ImageContext';
+import JobProgressList from '@/components/JobProgressList';
+import ImageLightbox from '@/components/ImageLightbox';
+import { useImageHistory } from '@/hooks/use-images';
+import { DEFAULT_IMAGE_FILTERS } from '@/lib/image-filters';
 import { useAuth } from '@/contexts/AuthContext';
 import { Navigate } from 'react-router-dom';
 
+const RECENT_LIMIT = 8;
+// Favorites are pinned in front of the recent images, taking up to half the grid
+const PINNED_FAVORITES_LIMIT = 4;
+const FAVORITE_FILTERS = { ...DEFAULT_IMAGE_FILTERS, favorites: true };
+
 const Dashboard = () => {
   const { isAuthenticated, isLoading, user, refreshUser } = useAuth();
-  const { history } = useImage();
+  const { images: history, hasNextPage } = useImageHistory();
+  const { images: favorites } = useImageHistory(FAVORITE_FILTERS);
+  const pinned = favorites.slice(0, PINNED_FAVORITES_LIMIT);
+  const pinnedIds = new Set(pinned.map(image => image.id));
+  const recent = [...pinned, ...history.filter(image => !pinnedIds.has(image.id))].slice(0, RECENT_LIMIT);
+  const recentIds = new Set(recent.map(image => image.id));
   const [pageLoading, setPageLoading] = useState(true);
+  const [lightboxImageId, setLightboxImageId] = useState<string | null>(null);
 
   // Initialize page and refresh user data
   useEffect(() => {
@@ -73,20 +87,27 @@ const Dashboard = () => {
             <h2 className="text-xl font-semibold mb-4">Create New Image</h2>
             <ImageGenerator />
           </div>
+
+          <JobProgressList />
           
           <div className="mb-6">
             <h2 className="text-xl font-semibold">Recent Creations</h2>
             <p className="text-gray-600 text-sm mt-1">
-              Your most recently generated images
+              {pinned.length > 0
+                ? 'Your favorites, then your most recently generated images'
+                : 'Your most recently generated images'}
             </p>
           </div>
           
-          {history.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {history.slice(0, 8).map((image) => (
-                <ImageCard key={image.id} image={image} />
-              ))}
-            </div>
+          {recent.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {recent.map((image) => (
+                  <ImageCard key={image.id} image={image} onOpen={() => setLightboxImageId(image.id)} />
+                ))}
+              </div>
+              <ImageLightbox images={recent} imageId={lightboxImageId} onImageChange={setLightboxImageId} />
+            </>
           ) : (
             <EmptyState
               title="No images yet"
@@ -100,7 +121,7 @@ const Dashboard = () => {
             />
           )}
           
-          {history.length > 8 && (
+          {(hasNextPage || history.some(image => !recentIds.has(image.id))) && (
             <div className="mt-6 text-center">
               <a 
                 href="/history" 
@@ -1,16 +1,25 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import Navbar from '@/components/Navbar';
 import ImageCard from '@/components/ImageCard';
 import EmptyState from '@/components/EmptyState';
-import { useImage } from '@/contexts/ImageContext';
+import LoadMoreSentinel from '@/components/LoadMoreSentinel';
+import ImageFilterBar from '@/components/ImageFilterBar';
+import TagCloud from '@/components/TagCloud';
+import BulkActionBar from '@/components/BulkActionBar';
+import ImageLightbox from '@/components/ImageLightbox';
+import { useClearHistory, useImageHistory, useTrash } from '@/hooks/use-images';
 import { useAuth } from '@/contexts/AuthContext';
-import { Navigate, useNavigate } from 'react-router-dom';
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { 
+  Star,
+  Trash,
+  Upload,
   Trash2, 
   AlertTriangle 
 } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,12 +31,77 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { TRASH_RETENTION_DAYS } from '@/lib/storage';
+import {
+  DEFAULT_IMAGE_FILTERS,
+  ImageFilters,
+  hasActiveFilters,
+  imageFiltersToParams,
+  parseImageFilters,
+} from '@/lib/image-filters';
 
 const History = () => {
   const { isAuthenticated, isLoading, user, refreshUser } = useAuth();
-  const { history, clearHistory } = useImage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseImageFilters(searchParams);
+  const isFiltered = hasActiveFilters(filters);
+  // Narrowed by more than the Favorites tab
+  const isSearching = hasActiveFilters({ ...filters, favorites: false });
+  const {
+    images: history,
+    isLoading: historyLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useImageHistory(filters);
+  const { images: trash, hasNextPage: hasMoreTrash } = useTrash();
+  const clearHistory = useClearHistory();
   const navigate = useNavigate();
   const [pageLoading, setPageLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Last image clicked, shift-click selects everything between it and the next one
+  const selectionAnchor = useRef<string | null>(null);
+  const [lightboxImageId, setLightboxImageId] = useState<string | null>(null);
+  const selectedImages = history.filter(image => selectedIds.has(image.id));
+  const filterKey = searchParams.toString();
+
+  // Filters live in the URL so searches can be shared and survive reloads
+  const handleFiltersChange = useCallback((next: ImageFilters) => {
+    setSearchParams(imageFiltersToParams(next), { replace: true });
+  }, [setSearchParams]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    selectionAnchor.current = null;
+  }, []);
+
+  // A selection only makes sense for the list it was made in
+  useEffect(() => {
+    clearSelection();
+  }, [filterKey, clearSelection]);
+
+  const handleSelect = (imageId: string, event: React.MouseEvent) => {
+    const ids = history.map(image => image.id);
+    const anchor = selectionAnchor.current;
+    const next = new Set(selectedIds);
+
+    if (event.shiftKey && anchor && anchor !== imageId && ids.includes(anchor)) {
+      // The range takes the state of the image it starts from
+      const [start, end] = [ids.indexOf(anchor), ids.indexOf(imageId)].sort((a, b) => a - b);
+      const select = selectedIds.has(anchor);
+      for (const id of ids.slice(start, end + 1)) {
+        if (select) next.add(id);
+        else next.delete(id);
+      }
+    } else if (next.has(imageId)) {
+      next.delete(imageId);
+    } else {
+      next.add(imageId);
+    }
+
+    selectionAnchor.current = imageId;
+    setSelectedIds(next);
+  };
 
   // Initialize page and refresh user data
   useEffect(() => {
@@ -86,44 +160,125 @@ const History = () => {
               </p>
             </div>
             
-            {history.length > 0 && (
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button variant="outline" className="text-red-500 border-red-200 hover:bg-red-50">
-                    <Trash2 size={16} className="mr-2" />
-                    Clear History
-                  </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle className="flex items-center">
-                      <AlertTriangle className="text-red-500 mr-2" size={20} />
-                      Clear Image History?
-                    </AlertDialogTitle>
-                    <AlertDialogDescription>
-                      This action cannot be undone. This will permanently delete all your generated images and history.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction
-                      onClick={clearHistory}
-                      className="bg-red-500 hover:bg-red-600"
-                    >
-                      Delete All
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
-            )}
+            <div className="flex gap-2">
+              <Button variant="outline" asChild>
+                <Link to="/history/import">
+                  <Upload size={16} className="mr-2" />
+                  Import
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/history/trash">
+                  <Trash size={16} className="mr-2" />
+                  Trash{trash.length > 0 ? ` (${trash.length}${hasMoreTrash ? '+' : ''})` : ''}
+                </Link>
+              </Button>
+              {history.length > 0 && !isFiltered && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="text-red-500 border-red-200 hover:bg-red-50">
+                      <Trash2 size={16} className="mr-2" />
+                      Clear History
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle className="flex items-center">
+                        <AlertTriangle className="text-red-500 mr-2" size={20} />
+                        Clear Image History?
+                      </AlertDialogTitle>
+                      <AlertDialogDescription>
+                        All your generated images will be moved to the trash. You can restore them from there for the next {TRASH_RETENTION_DAYS} days.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => clearHistory.mutate()}
+                        className="bg-red-500 hover:bg-red-600"
+                      >
+                        Move All to Trash
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
           </div>
           
-          {history.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {history.map((image) => (
-                <ImageCard key={image.id} image={image} />
-              ))}
+          <Tabs
+            value={filters.favorites ? 'favorites' : 'all'}
+            onValueChange={(tab) => handleFiltersChange({ ...filters, favorites: tab === 'favorites' })}
+            className="mb-4"
+          >
+            <TabsList>
+              <TabsTrigger value="all">All images</TabsTrigger>
+              <TabsTrigger value="favorites">
+                <Star size={14} className="mr-2" />
+                Favorites
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <ImageFilterBar value={filters} onChange={handleFiltersChange} />
+          <TagCloud selected={filters.tag} onSelect={(tag) => handleFiltersChange({ ...filters, tag })} />
+
+          {historyLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
             </div>
+          ) : history.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {history.map((image) => (
+                  <ImageCard
+                    key={image.id}
+                    image={image}
+                    selected={selectedIds.has(image.id)}
+                    selectionActive={selectedImages.length > 0}
+                    onSelect={(e) => handleSelect(image.id, e)}
+                    onOpen={() => setLightboxImageId(image.id)}
+                  />
+                ))}
+              </div>
+              <BulkActionBar
+                selectedImages={selectedImages}
+                selectableCount={history.length}
+                onSelectAll={() => setSelectedIds(new Set(history.map(image => image.id)))}
+                onClear={clearSelection}
+              />
+              <LoadMoreSentinel
+                onLoadMore={fetchNextPage}
+                hasMore={!!hasNextPage}
+                isLoading={isFetchingNextPage}
+              />
+              <ImageLightbox
+                images={history}
+                imageId={lightboxImageId}
+                onImageChange={setLightboxImageId}
+                hasMore={!!hasNextPage}
+                isLoadingMore={isFetchingNextPage}
+                onLoadMore={fetchNextPage}
+              />
+            </>
+          ) : isSearching ? (
+            <EmptyState
+              title="No matching images"
+              description="Try a different search or fewer filters"
+              action={{
+                label: "Clear filters",
+                onClick: () => handleFiltersChange({ ...DEFAULT_IMAGE_FILTERS, favorites: filters.favorites, sort: filters.sort })
+              }}
+            />
+          ) : filters.favorites ? (
+            <EmptyState
+              title="No favorites yet"
+              description="Star an image to keep it here"
+              action={{
+                label: "Browse all images",
+                onClick: () => handleFiltersChange({ ...filters, favorites: false })
+              }}
+            />
           ) : (
             <EmptyState
               title="Your history is empty"
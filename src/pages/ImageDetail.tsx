@@ -0,0 +1,254 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowLeft, ArrowRight, Copy, Download, Link2, SlidersHorizontal } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import EmptyState from '@/components/EmptyState';
+import ImageMetadata from '@/components/ImageMetadata';
+import ComparisonSlider from '@/components/ComparisonSlider';
+import NotFound from '@/pages/NotFound';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImageDetail, useImageLineage, useRelatedImages } from '@/hooks/use-image-detail';
+import { GeneratedImage } from '@/types/database';
+import { downloadImage } from '@/lib/download';
+import { describeEdit } from '@/lib/edits';
+
+const ImageThumbnailLink: React.FC<{ image: GeneratedImage; className?: string }> = ({ image, className = '' }) => (
+  <Link
+    to={`/image/${image.id}`}
+    title={image.prompt}
+    className={`block overflow-hidden rounded-md bg-gray-100 hover:ring-2 hover:ring-imaginate-purple ${className}`}
+  >
+    <img
+      src={image.thumbnailUrl ?? image.imageUrl}
+      alt={image.prompt}
+      loading="lazy"
+      className="w-full h-full object-cover aspect-square"
+    />
+  </Link>
+);
+
+const ImageDetail = () => {
+  const { imageId } = useParams<{ imageId: string }>();
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { data: image, isLoading: imageLoading, isError, refetch } = useImageDetail(imageId);
+  const { data: lineage } = useImageLineage(image);
+  const { data: related = [] } = useRelatedImages(image);
+
+  // Handle loading state
+  if (isLoading || imageLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <div className="flex-grow flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow">
+          <EmptyState
+            title="Couldn't load this image"
+            description="Check your connection and try again"
+            action={{
+              label: "Try again",
+              onClick: () => refetch()
+            }}
+          />
+        </main>
+      </div>
+    );
+  }
+
+  // Missing, trashed, or someone else's private image
+  if (!image) {
+    return <NotFound />;
+  }
+
+  const isOwner = user?.id === image.userId;
+  const ancestors = lineage?.ancestors ?? [];
+  const versions = lineage?.versions ?? [];
+  // Inpainted images are compared with the reference they were painted over
+  const inpaintedFrom = image.maskImagePath ? image.sourceImageUrl : null;
+
+  const handleDownload = async () => {
+    try {
+      await downloadImage(image);
+      toast.success('Image downloaded successfully');
+    } catch (error) {
+      console.error('Error downloading image:', error);
+      toast.error('Failed to download image');
+    }
+  };
+
+  const copyText = async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(message);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast.error('Failed to copy');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-6xl mx-auto py-8 px-4">
+          {isAuthenticated && (
+            <Link
+              to={isOwner ? '/history' : '/dashboard'}
+              className="inline-flex items-center text-sm text-gray-500 hover:text-imaginate-purple mb-4"
+            >
+              <ArrowLeft size={14} className="mr-1" />
+              {isOwner ? 'Back to history' : 'Back to dashboard'}
+            </Link>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2">
+              <a href={image.imageUrl} target="_blank" rel="noopener noreferrer" title="Open full size">
+                <img
+                  src={image.imageUrl}
+                  alt={image.prompt}
+                  className="w-full max-h-[80vh] object-contain rounded-lg bg-gray-100"
+                />
+              </a>
+            </div>
+
+            <div>
+              <h1 className="text-xl font-semibold text-imaginate-dark whitespace-pre-line">
+                {image.prompt}
+              </h1>
+
+              <div className="flex flex-wrap gap-2 mt-4">
+                <Button variant="outline" size="sm" onClick={handleDownload}>
+                  <Download size={14} className="mr-2" />
+                  Download
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => copyText(image.prompt, 'Prompt copied')}>
+                  <Copy size={14} className="mr-2" />
+                  Copy prompt
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => copyText(window.location.href, 'Link copied')}>
+                  <Link2 size={14} className="mr-2" />
+                  Copy link
+                </Button>
+                {isOwner && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={`/image/${image.id}/edit`}>
+                      <SlidersHorizontal size={14} className="mr-2" />
+                      Edit
+                    </Link>
+                  </Button>
+                )}
+              </div>
+              {isOwner && image.isPrivate && (
+                <p className="text-xs text-gray-500 mt-2">
+                  This image is private, only you can open this link.
+                </p>
+              )}
+
+              <ImageMetadata image={image} className="mt-6" />
+
+              {image.editStack && image.editStack.length > 0 && (
+                <div className="mt-6">
+                  <p className="text-xs text-gray-500 mb-1">Edits to the original</p>
+                  <ol className="list-decimal list-inside text-sm text-imaginate-gray space-y-0.5">
+                    {image.editStack.map((edit, index) => (
+                      <li key={index}>{describeEdit(edit)}</li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {image.sourceImageUrl && (
+                <div className="mt-6">
+                  <p className="text-xs text-gray-500 mb-1">Reference image</p>
+                  <a href={image.sourceImageUrl} target="_blank" rel="noopener noreferrer">
+                    <img
+                      src={image.sourceImageUrl}
+                      alt="Reference image"
+                      className="w-32 rounded-md bg-gray-100 object-cover hover:ring-2 hover:ring-imaginate-purple"
+                    />
+                  </a>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {inpaintedFrom && (
+            <section className="mt-12">
+              <h2 className="text-xl font-semibold mb-4">Before and after</h2>
+              <ComparisonSlider
+                before={inpaintedFrom}
+                after={image.imageUrl}
+                alt={image.prompt}
+                className="max-w-2xl"
+              />
+            </section>
+          )}
+
+          {(ancestors.length > 0 || versions.length > 0) && (
+            <section className="mt-12">
+              <h2 className="text-xl font-semibold mb-4">Lineage</h2>
+              {ancestors.length > 0 && (
+                <div className="mb-6">
+                  <p className="text-sm text-gray-600 mb-2">Made from</p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {ancestors.map(ancestor => (
+                      <React.Fragment key={ancestor.id}>
+                        <ImageThumbnailLink image={ancestor} className="w-24" />
+                        <ArrowRight size={16} className="text-gray-400" />
+                      </React.Fragment>
+                    ))}
+                    <div className="w-24 overflow-hidden rounded-md ring-2 ring-imaginate-purple">
+                      <img
+                        src={image.thumbnailUrl ?? image.imageUrl}
+                        alt="This image"
+                        className="w-full h-full object-cover aspect-square"
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+              {versions.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {versions.length === 1 ? '1 image made from this one' : `${versions.length} images made from this one`}
+                  </p>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-2">
+                    {versions.map(version => (
+                      <ImageThumbnailLink key={version.id} image={version} />
+                    ))}
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+
+          {related.length > 0 && (
+            <section className="mt-12">
+              <h2 className="text-xl font-semibold mb-4">Similar images</h2>
+              <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-2">
+                {related.map(relatedImage => (
+                  <ImageThumbnailLink key={relatedImage.id} image={relatedImage} />
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ImageDetail;
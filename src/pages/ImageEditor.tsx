@@ -0,0 +1,443 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  FlipHorizontal,
+  FlipVertical,
+  Loader2,
+  RotateCcw,
+  RotateCw,
+  Save,
+  Type,
+  Undo2,
+  X,
+} from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import EmptyState from '@/components/EmptyState';
+import NotFound from '@/pages/NotFound';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImageDetail } from '@/hooks/use-image-detail';
+import { invalidateImageQueries } from '@/hooks/use-images';
+import { GeneratedImage } from '@/types/database';
+import { ASPECT_RATIO_PRESETS } from '@/lib/generation';
+import {
+  ColorAdjustments,
+  EDIT_FILTERS,
+  EDIT_PREVIEW_SIZE,
+  EditFilter,
+  EditOperation,
+  NO_ADJUSTMENTS,
+  TextPosition,
+  describeEdit,
+  loadEditSource,
+  renderEdits,
+  saveEditedImage,
+} from '@/lib/edits';
+import { fetchImageBlob } from '@/lib/download';
+import { tierLimitMessage } from '@/lib/tiers';
+
+const ADJUSTMENT_SLIDERS: { id: keyof ColorAdjustments; label: string; min: number; max: number }[] = [
+  { id: 'brightness', label: 'Brightness', min: -100, max: 100 },
+  { id: 'contrast', label: 'Contrast', min: -100, max: 100 },
+  { id: 'saturation', label: 'Saturation', min: -100, max: 100 },
+  { id: 'hue', label: 'Hue', min: -180, max: 180 },
+];
+
+const TEXT_POSITIONS: { id: TextPosition; label: string }[] = [
+  { id: 'top', label: 'Top' },
+  { id: 'center', label: 'Middle' },
+  { id: 'bottom', label: 'Bottom' },
+];
+
+type EditorProps = {
+  original: GeneratedImage;
+  initialEdits: EditOperation[];
+};
+
+// Kept in its own component so the edits are reset when another image is opened
+const Editor: React.FC<EditorProps> = ({ original, initialEdits }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<Blob | null>(null);
+  const [preview, setPreview] = useState<OffscreenCanvas | HTMLCanvasElement | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [edits, setEdits] = useState<EditOperation[]>(initialEdits);
+  const [text, setText] = useState('');
+  const [textPosition, setTextPosition] = useState<TextPosition>('bottom');
+  const [textColor, setTextColor] = useState('#ffffff');
+  const [textSize, setTextSize] = useState(8);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const blob = await fetchImageBlob(original.imageUrl);
+        // Edits are previewed on a smaller copy, saving renders the full image
+        const canvas = await loadEditSource(blob, EDIT_PREVIEW_SIZE);
+        if (cancelled) return;
+        setSource(blob);
+        setPreview(canvas);
+      } catch (error) {
+        console.error('Error loading image for editing:', error);
+        if (!cancelled) setLoadFailed(true);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [original.imageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !preview) return;
+    const rendered = renderEdits(preview, edits);
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+  }, [preview, edits]);
+
+  const lastEdit = edits[edits.length - 1];
+  const adjustments: ColorAdjustments = lastEdit?.type === 'adjust' ? lastEdit : NO_ADJUSTMENTS;
+  const activeFilter = lastEdit?.type === 'filter' ? lastEdit.filter : null;
+
+  const addEdit = (edit: EditOperation) => setEdits(prev => [...prev, edit]);
+
+  // Dragging a slider keeps changing the same adjustment instead of stacking new ones
+  const handleAdjust = (id: keyof ColorAdjustments, value: number) =>
+    setEdits(prev => {
+      const last = prev[prev.length - 1];
+      return last?.type === 'adjust'
+        ? [...prev.slice(0, -1), { ...last, [id]: value }]
+        : [...prev, { type: 'adjust', ...NO_ADJUSTMENTS, [id]: value }];
+    });
+
+  // Picking another filter swaps it, picking the same one again removes it
+  const handleFilter = (filter: EditFilter) =>
+    setEdits(prev => {
+      const last = prev[prev.length - 1];
+      const rest = last?.type === 'filter' ? prev.slice(0, -1) : prev;
+      return last?.type === 'filter' && last.filter === filter ? rest : [...rest, { type: 'filter', filter }];
+    });
+
+  const handleAddText = () => {
+    addEdit({ type: 'text', text: text.trim(), position: textPosition, color: textColor, size: textSize });
+    setText('');
+  };
+
+  const handleSave = async () => {
+    if (!user || !source || edits.length === 0) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveEditedImage(user.id, original, source, edits);
+      await invalidateImageQueries(queryClient, user.id);
+      toast.success('Edited version saved');
+      navigate(`/image/${saved.id}`);
+    } catch (error) {
+      console.error('Error saving edited image:', error);
+      toast.error(tierLimitMessage(error) ?? 'Failed to save the edited image. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  if (loadFailed) {
+    return (
+      <EmptyState
+        title="Couldn't load this image"
+        description="Check your connection and try again"
+        action={{
+          label: "Try again",
+          onClick: () => window.location.reload()
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2">
+        <div className="flex items-center justify-center rounded-lg bg-gray-100 min-h-[40vh]">
+          {preview ? (
+            <canvas
+              ref={canvasRef}
+              aria-label={`Edited ${original.prompt}`}
+              className="block max-h-[75vh] max-w-full"
+            />
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-imaginate-purple" />
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <Tabs defaultValue="crop">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="crop">Crop</TabsTrigger>
+            <TabsTrigger value="adjust">Adjust</TabsTrigger>
+            <TabsTrigger value="filters">Filters</TabsTrigger>
+            <TabsTrigger value="text">Text</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="crop" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>Crop to</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {ASPECT_RATIO_PRESETS.map(preset => (
+                  <Button
+                    key={preset.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addEdit({ type: 'crop', aspectRatio: preset.id, ratio: preset.width / preset.height })}
+                    disabled={!preview}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Rotate and flip</Label>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" size="icon" title="Rotate left" onClick={() => addEdit({ type: 'rotate', direction: 'left' })} disabled={!preview}>
+                  <RotateCcw size={16} />
+                </Button>
+                <Button variant="outline" size="icon" title="Rotate right" onClick={() => addEdit({ type: 'rotate', direction: 'right' })} disabled={!preview}>
+                  <RotateCw size={16} />
+                </Button>
+                <Button variant="outline" size="icon" title="Flip horizontally" onClick={() => addEdit({ type: 'flip', axis: 'horizontal' })} disabled={!preview}>
+                  <FlipHorizontal size={16} />
+                </Button>
+                <Button variant="outline" size="icon" title="Flip vertically" onClick={() => addEdit({ type: 'flip', axis: 'vertical' })} disabled={!preview}>
+                  <FlipVertical size={16} />
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="adjust" className="space-y-4 pt-2">
+            {ADJUSTMENT_SLIDERS.map(slider => (
+              <div key={slider.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>{slider.label}</Label>
+                  <span className="text-xs text-gray-500">{adjustments[slider.id]}</span>
+                </div>
+                <Slider
+                  aria-label={slider.label}
+                  min={slider.min}
+                  max={slider.max}
+                  step={1}
+                  value={[adjustments[slider.id]]}
+                  onValueChange={([value]) => handleAdjust(slider.id, value)}
+                  disabled={!preview}
+                />
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="filters" className="pt-2">
+            <div className="grid grid-cols-3 gap-2">
+              {EDIT_FILTERS.map(filter => (
+                <Button
+                  key={filter.id}
+                  variant={activeFilter === filter.id ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => handleFilter(filter.id)}
+                  disabled={!preview}
+                >
+                  {filter.label}
+                </Button>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="text" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="edit-text">Text</Label>
+              <Input
+                id="edit-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Caption"
+                maxLength={120}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Position</Label>
+              <ToggleGroup
+                type="single"
+                value={textPosition}
+                onValueChange={(value) => value && setTextPosition(value as TextPosition)}
+                className="justify-start"
+              >
+                {TEXT_POSITIONS.map(item => (
+                  <ToggleGroupItem key={item.id} value={item.id} size="sm">
+                    {item.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="flex items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-text-color">Colour</Label>
+                <Input
+                  id="edit-text-color"
+                  type="color"
+                  value={textColor}
+                  onChange={(e) => setTextColor(e.target.value)}
+                  className="h-9 w-14 p-1"
+                />
+              </div>
+              <div className="flex-1 space-y-2 pb-3">
+                <Label>Size</Label>
+                <Slider
+                  aria-label="Text size"
+                  min={3}
+                  max={20}
+                  step={1}
+                  value={[textSize]}
+                  onValueChange={([value]) => setTextSize(value)}
+                />
+              </div>
+            </div>
+            <Button onClick={handleAddText} disabled={!preview || !text.trim()}>
+              <Type size={14} className="mr-2" />
+              Add text
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-sm font-medium">Edits</h2>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEdits(prev => prev.slice(0, -1))}
+                disabled={edits.length === 0}
+              >
+                <Undo2 size={14} className="mr-1" />
+                Undo
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setEdits([])} disabled={edits.length === 0}>
+                Reset
+              </Button>
+            </div>
+          </div>
+          {edits.length === 0 ? (
+            <p className="text-sm text-gray-500">No edits yet. The original is never changed.</p>
+          ) : (
+            <ol className="space-y-1">
+              {edits.map((edit, index) => (
+                <li key={index} className="flex items-center justify-between rounded-md bg-gray-50 px-2 py-1 text-sm">
+                  <span className="truncate">{index + 1}. {describeEdit(edit)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    title="Remove this edit"
+                    onClick={() => setEdits(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X size={12} />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <Button className="w-full" onClick={handleSave} disabled={!source || edits.length === 0 || isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save as new version
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const ImageEditor = () => {
+  const { imageId } = useParams<{ imageId: string }>();
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { data: image, isLoading: imageLoading, isError, refetch } = useImageDetail(imageId);
+  // An edited version reopens its original with the same edits, so any of them can be taken back
+  const { data: original, isLoading: originalLoading } = useImageDetail(
+    image?.editStack && image.parentImageId ? image.parentImageId : undefined
+  );
+
+  // Handle loading state
+  if (isLoading || imageLoading || originalLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <div className="flex-grow flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/" />;
+  }
+
+  if (isError) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow">
+          <EmptyState
+            title="Couldn't load this image"
+            description="Check your connection and try again"
+            action={{
+              label: "Try again",
+              onClick: () => refetch()
+            }}
+          />
+        </main>
+      </div>
+    );
+  }
+
+  // Only your own images can be edited
+  if (!image || image.userId !== user.id) {
+    return <NotFound />;
+  }
+
+  // When the original is gone the edited version itself is the starting point
+  const editFrom = original ?? image;
+  const initialEdits = original ? image.editStack ?? [] : [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-6xl mx-auto py-8 px-4">
+          <Link
+            to={`/image/${image.id}`}
+            className="inline-flex items-center text-sm text-gray-500 hover:text-imaginate-purple mb-4"
+          >
+            <ArrowLeft size={14} className="mr-1" />
+            Back to image
+          </Link>
+          <h1 className="text-2xl font-bold mb-6">Edit image</h1>
+          <Editor key={editFrom.id} original={editFrom} initialEdits={initialEdits} />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,262 @@
+import React, { useRef, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { ArrowLeft, FileArchive, FolderOpen, Loader2, Upload } from 'lucide-react';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { invalidateImageQueries } from '@/hooks/use-images';
+import { resolveTier } from '@/lib/tiers';
+import { MANIFEST_FILENAME } from '@/lib/archive';
+import {
+  CSV_MANIFEST_COLUMNS,
+  CSV_MANIFEST_FILENAME,
+  ImportResult,
+  ImportSource,
+  ImportStatus,
+  importImages,
+  readImportFolder,
+  readImportZip,
+} from '@/lib/import';
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  imported: 'Imported',
+  duplicate: 'Duplicate',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<ImportStatus, string> = {
+  imported: 'bg-green-100 text-green-800 hover:bg-green-100',
+  duplicate: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  failed: 'bg-red-100 text-red-800 hover:bg-red-100',
+};
+
+const plural = (count: number) => (count === 1 ? '1 image' : `${count} images`);
+
+const Import = () => {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const queryClient = useQueryClient();
+  const zipInput = useRef<HTMLInputElement>(null);
+  // webkitdirectory isn't in React's input props
+  const folderInput = useRef<HTMLInputElement>(null);
+  const setFolderInput = (input: HTMLInputElement | null) => {
+    input?.setAttribute('webkitdirectory', '');
+    folderInput.current = input;
+  };
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+
+  // Handle loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <div className="flex-grow flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/" />;
+  }
+
+  const readSource = async (name: string, read: () => Promise<ImportSource>) => {
+    setIsReading(true);
+    setSource(null);
+    setResults([]);
+    try {
+      setSource(await read());
+      setSourceName(name);
+    } catch (error) {
+      console.error('Error reading import:', error);
+      setSourceName(null);
+      toast.error(error instanceof Error ? error.message : 'Could not read the import');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleZipChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) readSource(file.name, () => readImportZip(file));
+  };
+
+  const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const folder = files[0].webkitRelativePath.split('/')[0] || 'Folder';
+    readSource(folder, () => readImportFolder(files));
+  };
+
+  const handleImport = async () => {
+    if (!source) return;
+    setIsImporting(true);
+    setResults([]);
+    try {
+      const finished = await importImages(
+        user.id,
+        source,
+        defaultPrivate,
+        (result) => setResults(current => [...current, result])
+      );
+      const imported = finished.filter(result => result.status === 'imported').length;
+      if (imported > 0) {
+        toast.success(`Imported ${plural(imported)}`);
+      } else {
+        toast.warning('No images were imported');
+      }
+    } catch (error) {
+      console.error('Error importing images:', error);
+      toast.error('Import failed. Please try again.');
+    } finally {
+      setIsImporting(false);
+      setSource(null);
+      invalidateImageQueries(queryClient, user.id);
+    }
+  };
+
+  // Images the manifest doesn't mark as public or private stay private when the plan allows it
+  const defaultPrivate = resolveTier(user.subscriptionTier).maxPrivateImages !== 0;
+  const total = source ? source.entries.length + source.invalid.length : results.length;
+  const counts = results.reduce<Record<ImportStatus, number>>(
+    (acc, result) => ({ ...acc, [result.status]: acc[result.status] + 1 }),
+    { imported: 0, duplicate: 0, failed: 0 }
+  );
+  const isDone = !isImporting && results.length > 0;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-4xl mx-auto py-8 px-4">
+          <Link to="/history" className="inline-flex items-center text-sm text-gray-500 hover:text-imaginate-purple mb-4">
+            <ArrowLeft size={14} className="mr-1" />
+            Back to history
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-imaginate-dark">
+              Import Images
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Add images from a ZIP exported here, or from a folder of images with a manifest
+            </p>
+          </div>
+
+          <div className="rounded-lg border bg-white p-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => zipInput.current?.click()} disabled={isReading || isImporting}>
+                <FileArchive size={16} className="mr-2" />
+                Choose ZIP
+              </Button>
+              <Button variant="outline" onClick={() => folderInput.current?.click()} disabled={isReading || isImporting}>
+                <FolderOpen size={16} className="mr-2" />
+                Choose folder
+              </Button>
+              <input ref={zipInput} type="file" accept=".zip,application/zip" className="hidden" onChange={handleZipChange} />
+              <input ref={setFolderInput} type="file" multiple className="hidden" onChange={handleFolderChange} />
+            </div>
+
+            <p className="text-sm text-gray-500">
+              Folders need a <code>{MANIFEST_FILENAME}</code> like the one in an export, or a{' '}
+              <code>{CSV_MANIFEST_FILENAME}</code> with the columns <code>{CSV_MANIFEST_COLUMNS.join(', ')}</code>.
+              Only <code>file</code> and <code>prompt</code> are required, tags are separated by semicolons.
+              {defaultPrivate && ' Images without an is_private value are imported as private.'}
+            </p>
+
+            {isReading && (
+              <p className="flex items-center text-sm text-gray-600">
+                <Loader2 size={14} className="mr-2 animate-spin" />
+                Reading…
+              </p>
+            )}
+
+            {source && sourceName && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 rounded-md bg-gray-50 p-4">
+                <div className="text-sm">
+                  <p className="font-medium">{sourceName}</p>
+                  <p className="text-gray-600">
+                    {plural(source.entries.length)} to import
+                    {source.invalid.length > 0 && `, ${source.invalid.length} invalid ${source.invalid.length === 1 ? 'entry' : 'entries'}`}
+                  </p>
+                </div>
+                <Button onClick={handleImport} disabled={isImporting || source.entries.length === 0}>
+                  {isImporting ? (
+                    <Loader2 size={16} className="mr-2 animate-spin" />
+                  ) : (
+                    <Upload size={16} className="mr-2" />
+                  )}
+                  Import {plural(source.entries.length)}
+                </Button>
+              </div>
+            )}
+
+            {isImporting && total > 0 && (
+              <div className="space-y-1">
+                <Progress value={(results.length / total) * 100} />
+                <p className="text-xs text-gray-500">{results.length} of {total}</p>
+              </div>
+            )}
+          </div>
+
+          {results.length > 0 && (
+            <div className="mt-8">
+              {isDone && (
+                <p className="text-sm text-gray-600 mb-2">
+                  {counts.imported} imported, {counts.duplicate} {counts.duplicate === 1 ? 'duplicate' : 'duplicates'}, {counts.failed} failed.{' '}
+                  {counts.imported > 0 && (
+                    <Link to="/history" className="text-imaginate-purple hover:underline">
+                      View in history
+                    </Link>
+                  )}
+                </p>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead className="w-28">Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result, index) => (
+                    <TableRow key={`${index}-${result.file}`}>
+                      <TableCell className="font-mono text-xs break-all">{result.file}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_CLASSES[result.status]}>{STATUS_LABELS[result.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{result.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Import;
@@ -0,0 +1,129 @@
+import React from 'react';
+import Navbar from '@/components/Navbar';
+import TrashImageCard from '@/components/TrashImageCard';
+import EmptyState from '@/components/EmptyState';
+import LoadMoreSentinel from '@/components/LoadMoreSentinel';
+import { usePurgeImages, useTrash } from '@/hooks/use-images';
+import { useAuth } from '@/contexts/AuthContext';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ArrowLeft, Trash2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { TRASH_RETENTION_DAYS } from '@/lib/storage';
+
+const Trash = () => {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { images: trash, isLoading: trashLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useTrash();
+  const purgeImages = usePurgeImages();
+  const navigate = useNavigate();
+
+  // Handle loading state
+  if (isLoading || trashLoading) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <div className="flex-grow flex items-center justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-imaginate-purple"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Redirect if not authenticated
+  if (!isAuthenticated || !user) {
+    return <Navigate to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow">
+        <div className="max-w-6xl mx-auto py-8 px-4">
+          <Link to="/history" className="inline-flex items-center text-sm text-gray-500 hover:text-imaginate-purple mb-4">
+            <ArrowLeft size={14} className="mr-1" />
+            Back to history
+          </Link>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8 gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-imaginate-dark">
+                Trash
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Deleted images are kept for {TRASH_RETENTION_DAYS} days before they are removed permanently
+              </p>
+            </div>
+
+            {trash.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-red-500 border-red-200 hover:bg-red-50">
+                    <Trash2 size={16} className="mr-2" />
+                    Empty Trash
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="flex items-center">
+                      <AlertTriangle className="text-red-500 mr-2" size={20} />
+                      Empty the trash?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This action cannot be undone. This will permanently delete every image in the trash.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => purgeImages.mutate(undefined)}
+                      className="bg-red-500 hover:bg-red-600"
+                    >
+                      Delete All
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+
+          {trash.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {trash.map((image) => (
+                  <TrashImageCard key={image.id} image={image} />
+                ))}
+              </div>
+              <LoadMoreSentinel
+                onLoadMore={fetchNextPage}
+                hasMore={!!hasNextPage}
+                isLoading={isFetchingNextPage}
+              />
+            </>
+          ) : (
+            <EmptyState
+              title="The trash is empty"
+              description="Images you delete stay here for a while so you can restore them"
+              action={{
+                label: "Back to history",
+                onClick: () => navigate('/history')
+              }}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Trash;
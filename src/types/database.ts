@@ -1,5 +1,6 @@
 
-import type { Database } from '@/integrations/supabase/types';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import type { EditOperation } from '@/lib/edits';
 
 // Re-export the base Database type
 export type { Database } from '@/integrations/supabase/types';
@@ -26,9 +27,82 @@ export type GeneratedImage = {
   cloudinaryPublicId: string | null;
   width: number | null;
   height: number | null;
+  provider: string | null;
+  model: string | null;
+  aspectRatio: string | null;
+  seed: number | null;
+  steps: number | null;
+  guidanceScale: number | null;
+  negativePrompt: string | null;
+  // Image-to-image: the reference image in the bucket and how far the result strayed from it
+  sourceImagePath: string | null;
+  strength: number | null;
+  // Inpainting: the mask over the reference, only its area was repainted
+  maskImagePath: string | null;
+  // Saved from the editor: the edits applied to the parent image, in order
+  editStack: EditOperation[] | null;
+  batchId: string | null;
+  // The image this one was made from, when it was regenerated, remixed or edited
+  parentImageId: string | null;
+  isPrivate: boolean;
+  isFavorite: boolean;
+  tags: string[];
+  fileSize: number;
+  storagePath: string | null;
+  thumbnailPath: string | null;
+  // Display URLs, filled in by withImageUrls since private files need signing
+  thumbnailUrl: string | null;
+  sourceImageUrl: string | null;
+  // Set while the image is in the trash
+  deletedAt: string | null;
   createdAt: string;
 };
 
+export type Collection = {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  coverImageId: string | null;
+  cover: GeneratedImage | null;
+  imageCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type GenerationJobStatus = Database['public']['Enums']['generation_job_status'];
+
+// Upscale jobs enlarge an existing image instead of generating one
+export type GenerationJobKind = 'generate' | 'upscale';
+
+export type GenerationJob = {
+  id: string;
+  userId: string;
+  status: GenerationJobStatus;
+  kind: GenerationJobKind;
+  progress: number;
+  error: string | null;
+  prompt: string;
+  provider: string;
+  model: string | null;
+  params: Record<string, unknown>;
+  imageId: string | null;
+  batchId: string | null;
+  parentImageId: string | null;
+  sourceImagePath: string | null;
+  maskImagePath: string | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export const isJobActive = (job: GenerationJob) =>
+  job.status === 'queued' || job.status === 'running';
+
+// Results that were generated but not (yet) saved to the account only have a local URL
+export const isUnsavedImage = (image: GeneratedImage) => image.imageUrl.startsWith('blob:');
+
 // Helper to convert database row to our model types
 export const mapDbProfileToProfile = (row: any): Profile => ({
   id: row.id,
@@ -48,8 +122,68 @@ export const mapDbImageToImage = (row: any): GeneratedImage => ({
   userId: row.user_id,
   prompt: row.prompt,
   imageUrl: row.image_url,
-  cloudinaryPublicId: row.cloudinary_public_id,
+  cloudinaryPublicId: row.cloudinary_public_id ?? null,
   width: row.width,
   height: row.height,
+  provider: row.provider,
+  model: row.model,
+  aspectRatio: row.aspect_ratio,
+  seed: row.seed ?? null,
+  steps: row.steps ?? null,
+  guidanceScale: row.guidance_scale ?? null,
+  negativePrompt: row.negative_prompt ?? null,
+  sourceImagePath: row.source_image_path ?? null,
+  strength: row.strength ?? null,
+  maskImagePath: row.mask_image_path ?? null,
+  editStack: Array.isArray(row.edit_stack) ? row.edit_stack : null,
+  batchId: row.batch_id ?? null,
+  parentImageId: row.parent_image_id ?? null,
+  isPrivate: row.is_private ?? false,
+  isFavorite: row.is_favorite ?? false,
+  // Present when the query embeds image_tags
+  tags: (row.image_tags ?? []).map((imageTag: { tag: string }) => imageTag.tag).sort(),
+  fileSize: row.file_size ?? 0,
+  storagePath: row.storage_path ?? null,
+  thumbnailPath: row.thumbnail_path ?? null,
+  thumbnailUrl: null,
+  sourceImageUrl: null,
+  deletedAt: row.deleted_at ?? null,
   createdAt: row.created_at
 });
+
+// Expects the cover and image count embedded as `cover` and `collection_images`
+export const mapDbCollectionToCollection = (
+  row: Tables<'collections'> & { cover: Tables<'images'> | null; collection_images: { count: number }[] }
+): Collection => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  description: row.description,
+  coverImageId: row.cover_image_id,
+  cover: row.cover ? mapDbImageToImage(row.cover) : null,
+  imageCount: row.collection_images?.[0]?.count ?? 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+export const mapDbJobToJob = (row: Tables<'generation_jobs'>): GenerationJob => ({
+  id: row.id,
+  userId: row.user_id,
+  status: row.status,
+  kind: row.kind === 'upscale' ? 'upscale' : 'generate',
+  progress: row.progress,
+  error: row.error,
+  prompt: row.prompt,
+  provider: row.provider,
+  model: row.model,
+  params: (row.params as Record<string, unknown>) || {},
+  imageId: row.image_id,
+  batchId: row.batch_id,
+  parentImageId: row.parent_image_id,
+  sourceImagePath: row.source_image_path,
+  maskImagePath: row.mask_image_path,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at
+});
@@ -0,0 +1,109 @@
+// Server-side counterparts of the providers in src/lib/providers that run
+// with runtime "server". Browser-only providers are not listed here.
+
+export type ServerGenerationRequest = {
+  prompt: string;
+  width: number;
+  height: number;
+  seed: number;
+  steps: number;
+  guidanceScale: number;
+  negativePrompt?: string;
+  model?: string;
+  // Image-to-image, only given to providers that support it
+  sourceImage?: Blob;
+  strength?: number;
+  mask?: Blob;
+  // Aborted when the job is cancelled
+  signal?: AbortSignal;
+};
+
+export type ServerGenerationResult = {
+  blob: Blob;
+  model: string;
+  width: number;
+  height: number;
+};
+
+export type ServerProvider = {
+  id: string;
+  // Whether a reference image can be given with the prompt
+  imageToImage: boolean;
+  // Whether a mask can be given with the reference image to repaint part of it
+  inpainting: boolean;
+  generate: (request: ServerGenerationRequest) => Promise<ServerGenerationResult>;
+};
+
+const UNSPLASH_API_URL = 'https://api.unsplash.com';
+
+const orientation = (width: number, height: number) =>
+  width === height ? 'squarish' : width > height ? 'landscape' : 'portrait';
+
+// Size from the JPEG frame header, there is no image decoding in the edge runtime
+const jpegSize = (bytes: Uint8Array) => {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('Could not read the size of the image');
+};
+
+// Picks a random photo matching the prompt through the Unsplash API and has
+// Unsplash crop it to the requested size. Needs the UNSPLASH_ACCESS_KEY secret.
+const unsplashProvider: ServerProvider = {
+  id: 'unsplash',
+  imageToImage: false,
+  inpainting: false,
+  generate: async ({ prompt, width, height, model, signal }) => {
+    const accessKey = Deno.env.get('UNSPLASH_ACCESS_KEY');
+    if (!accessKey) {
+      throw new Error('Unsplash is not configured');
+    }
+
+    const query = new URLSearchParams({ query: prompt, orientation: orientation(width, height) });
+    const photoResponse = await fetch(`${UNSPLASH_API_URL}/photos/random?${query}`, {
+      headers: { Authorization: `Client-ID ${accessKey}`, 'Accept-Version': 'v1' },
+      signal,
+    });
+
+    if (!photoResponse.ok) {
+      throw new Error(`Unsplash request failed with status ${photoResponse.status}`);
+    }
+
+    const photo: { urls: { raw: string } } = await photoResponse.json();
+    const imageUrl = new URL(photo.urls.raw);
+    imageUrl.searchParams.set('w', String(width));
+    imageUrl.searchParams.set('h', String(height));
+    imageUrl.searchParams.set('fit', 'crop');
+    imageUrl.searchParams.set('fm', 'jpg');
+    const response = await fetch(imageUrl, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Unsplash request failed with status ${response.status}`);
+    }
+
+    const blob = await response.blob();
+
+    if (blob.size === 0) {
+      throw new Error('Empty image blob received');
+    }
+
+    // Photos smaller than the requested size come back smaller, record what arrived
+    const size = jpegSize(new Uint8Array(await blob.arrayBuffer()));
+    return { blob, model: model || 'random', ...size };
+  },
+};
+
+export const serverProviders: Record<string, ServerProvider> = {
+  [unsplashProvider.id]: unsplashProvider,
+};
@@ -0,0 +1,19 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Service-role client, bypasses RLS so workers can write on behalf of users
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  );
+
+// Resolve the user behind the request's Authorization header, if any
+export const getRequestUser = async (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const { data, error } = await createAdminClient().auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+};
@@ -0,0 +1,76 @@
+// Image tags: normalisation, and the tags suggested for a prompt. Shared by
+// the app (through src/lib/tags.ts) and the generation worker, so images get
+// the same tags wherever they are saved. No Deno or browser APIs here.
+
+export const MAX_TAG_LENGTH = 40;
+// Auto tags per image, style words count towards it first
+export const MAX_AUTO_TAGS = 6;
+
+// Art styles, mediums and moods worth a tag even when they are not the subject.
+// Multi-word styles are matched before their single words.
+export const STYLE_WORDS = [
+  'oil painting', 'pixel art', 'line art', 'concept art', 'digital art', 'low poly', 'film noir',
+  'studio ghibli', 'art deco', 'art nouveau', 'pop art', 'street art', 'ukiyo-e', 'long exposure',
+  'watercolor', 'watercolour', 'gouache', 'acrylic', 'pastel', 'charcoal', 'sketch', 'ink',
+  'cyberpunk', 'steampunk', 'solarpunk', 'vaporwave', 'synthwave', 'retro', 'vintage', 'futuristic',
+  'surreal', 'surrealism', 'impressionism', 'impressionist', 'expressionism', 'cubism', 'minimalist',
+  'minimalism', 'baroque', 'gothic', 'fantasy', 'noir', 'anime', 'manga', 'cartoon', 'comic',
+  'photorealistic', 'hyperrealistic', 'realistic', 'cinematic', 'isometric', 'voxel', 'claymation',
+  'origami', 'papercut', 'mosaic', 'stained glass', 'neon', 'holographic', 'psychedelic', 'dreamy',
+  'moody', 'ethereal', 'whimsical', 'macro', 'portrait', 'landscape', 'bokeh', 'monochrome',
+  'black and white', 'sepia', '3d render', 'render', 'polaroid',
+];
+
+// Common English words plus prompt filler that says nothing about the image
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'around',
+  'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from',
+  'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'no', 'nor',
+  'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'out', 'over', 'own', 'same',
+  'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'would', 'you', 'your', 'yours', 'onto', 'upon', 'via', 'within', 'without', 'like',
+  'image', 'picture', 'photo', 'photograph', 'style', 'styled', 'showing', 'featuring', 'made',
+  'highly', 'detailed', 'detail', 'details', 'quality', 'high', 'best', 'ultra', 'resolution', 'hd',
+  'uhd', 'beautiful', 'stunning', 'amazing', 'masterpiece', 'trending', 'artstation', 'award',
+  'winning', 'background', 'foreground', 'shot', 'view', 'scene', 'lots', 'many', 'one', 'two',
+]);
+
+// Lowercase, single spaces, letters, digits and hyphens only.
+// Null when nothing usable is left.
+export const normalizeTag = (value: string): string | null => {
+  const tag = value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH)
+    .trim();
+  return tag || null;
+};
+
+// Style words first, then the remaining keywords in prompt order
+export const extractPromptTags = (prompt: string, limit = MAX_AUTO_TAGS): string[] => {
+  let text = ` ${prompt.toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, ' ').replace(/\s+/g, ' ')} `;
+  const tags: string[] = [];
+
+  for (const style of STYLE_WORDS) {
+    if (text.includes(` ${style} `)) {
+      tags.push(style);
+      text = text.replace(` ${style} `, ' ');
+    }
+  }
+
+  for (const word of text.split(' ')) {
+    const keyword = word.replace(/^-+|-+$/g, '');
+    if (keyword.length < 3 || STOPWORDS.has(keyword) || /^\d+$/.test(keyword)) continue;
+    tags.push(keyword);
+  }
+
+  // Long words are cut to the length image_tags accepts, one bad tag would fail the whole insert
+  const normalized = tags.map(normalizeTag).filter((tag): tag is string => !!tag);
+  return Array.from(new Set(normalized)).slice(0, limit);
+};
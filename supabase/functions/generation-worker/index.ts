@@ -0,0 +1,351 @@
+// Processes queued generation jobs for server-side providers.
+//
+// POST { jobId } runs a single job for the signed-in user (called by the app
+// right after queueing). Called without a job id using the service role key
+// (e.g. from a cron schedule) it drains the oldest queued jobs instead, so
+// work queued before a page reload is still picked up.
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient, getRequestUser } from '../_shared/supabase.ts';
+import { serverProviders } from '../_shared/providers.ts';
+import { extractPromptTags } from '../_shared/tags.ts';
+
+const BATCH_SIZE = 5;
+const IMAGES_BUCKET = 'images';
+// Private images, references and masks, see src/lib/storage.ts
+const PRIVATE_IMAGES_BUCKET = 'private-images';
+// How often a running job checks whether it was cancelled
+const CANCEL_POLL_INTERVAL_MS = 2000;
+
+type JobRow = {
+  id: string;
+  user_id: string;
+  prompt: string;
+  provider: string;
+  model: string | null;
+  params: Record<string, unknown>;
+  batch_id: string | null;
+  parent_image_id: string | null;
+  source_image_path: string | null;
+  mask_image_path: string | null;
+};
+
+const supabase = createAdminClient();
+
+// Updates only apply while the job is running, so a cancellation always wins.
+// Returns false when the job is no longer running, throws if the update failed.
+const updateJob = async (jobId: string, changes: Record<string, unknown>) => {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .update(changes)
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+};
+
+// Aborts the signal once the job stops running, e.g. because the user cancelled it
+const watchForCancellation = (jobId: string) => {
+  const controller = new AbortController();
+  const poll = setInterval(async () => {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('status')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (!error && data?.status !== 'running') {
+      controller.abort();
+    }
+  }, CANCEL_POLL_INTERVAL_MS);
+
+  controller.signal.addEventListener('abort', () => clearInterval(poll));
+  return { signal: controller.signal, stop: () => clearInterval(poll) };
+};
+
+// Move a job from queued to running; returns null if another worker got it
+// first, or if it is an upscale or browser job the worker doesn't render
+const claimJob = async (jobId: string): Promise<JobRow | null> => {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .update({ status: 'running', progress: 5, started_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .eq('kind', 'generate')
+    .eq('runtime', 'server')
+    .select('id, user_id, prompt, provider, model, params, batch_id, parent_image_id, source_image_path, mask_image_path')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+// References saved before the private bucket existed are still in the public one
+const downloadFile = async (path: string) => {
+  const { data, error } = await supabase
+    .storage
+    .from(PRIVATE_IMAGES_BUCKET)
+    .download(path);
+
+  if (data) {
+    return data;
+  }
+
+  const { data: legacyData } = await supabase
+    .storage
+    .from(IMAGES_BUCKET)
+    .download(path);
+
+  if (!legacyData) {
+    throw error;
+  }
+  return legacyData;
+};
+
+// The worker reads storage with the service role, so references must be in the
+// job owner's own folder
+const ownedPath = (job: JobRow, path: string) => {
+  if (!path.startsWith(`${job.user_id}/`) || path.split('/').includes('..')) {
+    throw new Error('Reference images must be in your own folder');
+  }
+  return path;
+};
+
+// Tier limit errors from the database carry the readable reason in their detail
+const errorMessage = (error: unknown) => {
+  const { message, details } = (error ?? {}) as { message?: string; details?: string };
+  if (message?.includes('tier_limit_exceeded') && details) return details;
+  return error instanceof Error ? error.message : 'Generation failed';
+};
+
+const runJob = async (job: JobRow) => {
+  const provider = serverProviders[job.provider];
+  const { signal, stop } = watchForCancellation(job.id);
+  const bucket = (job.params as { isPrivate?: boolean }).isPrivate ? PRIVATE_IMAGES_BUCKET : IMAGES_BUCKET;
+  // Set once the file is uploaded, so a job that doesn't finish removes it again
+  let filePath: string | null = null;
+
+  const removeUpload = async () => {
+    if (filePath) {
+      await supabase.storage.from(bucket).remove([filePath]);
+    }
+  };
+
+  try {
+    if (!provider) {
+      throw new Error(`Provider "${job.provider}" cannot run on the server`);
+    }
+
+    const params = job.params as {
+      aspectRatio?: string;
+      width: number;
+      height: number;
+      seed: number;
+      steps: number;
+      guidanceScale: number;
+      negativePrompt?: string;
+      isPrivate?: boolean;
+      strength?: number;
+    };
+
+    if (job.source_image_path && !provider.imageToImage) {
+      throw new Error(`Provider "${job.provider}" does not support reference images`);
+    }
+    if (job.mask_image_path && !provider.inpainting) {
+      throw new Error(`Provider "${job.provider}" does not support inpainting`);
+    }
+    const sourceImage = job.source_image_path ? await downloadFile(ownedPath(job, job.source_image_path)) : undefined;
+    const mask = sourceImage && job.mask_image_path ? await downloadFile(ownedPath(job, job.mask_image_path)) : undefined;
+
+    if (!await updateJob(job.id, { progress: 15 })) return;
+
+    const result = await provider.generate({
+      prompt: job.prompt,
+      width: params.width,
+      height: params.height,
+      seed: params.seed,
+      steps: params.steps,
+      guidanceScale: params.guidanceScale,
+      negativePrompt: params.negativePrompt || undefined,
+      model: job.model || undefined,
+      sourceImage,
+      strength: sourceImage ? params.strength : undefined,
+      mask,
+      signal,
+    });
+
+    if (!await updateJob(job.id, { progress: 70 })) return;
+
+    const mimeType = result.blob.type || 'image/jpeg';
+    const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+    const uploadPath = `${job.user_id}/${Date.now()}-image-${job.id}.${extension}`;
+
+    const { error: uploadError } = await supabase
+      .storage
+      .from(bucket)
+      .upload(uploadPath, result.blob, { contentType: mimeType });
+
+    if (uploadError) {
+      throw uploadError;
+    }
+    filePath = uploadPath;
+
+    // Private files are only shown through signed URLs, the row records the path either way
+    const { data: publicUrlData } = supabase
+      .storage
+      .from(bucket)
+      .getPublicUrl(uploadPath);
+
+    // Cancelled while uploading, don't leave the file behind
+    if (!await updateJob(job.id, { progress: 90 })) {
+      await removeUpload();
+      return;
+    }
+
+    const { data: image, error: imageError } = await supabase
+      .from('images')
+      .insert({
+        prompt: job.prompt,
+        image_url: publicUrlData.publicUrl,
+        // There is no canvas in the edge runtime, so these images have no thumbnail
+        storage_path: uploadPath,
+        user_id: job.user_id,
+        width: result.width,
+        height: result.height,
+        provider: job.provider,
+        model: result.model,
+        aspect_ratio: params.aspectRatio ?? null,
+        seed: params.seed,
+        steps: params.steps,
+        guidance_scale: params.guidanceScale,
+        negative_prompt: params.negativePrompt || null,
+        batch_id: job.batch_id,
+        parent_image_id: job.parent_image_id,
+        source_image_path: job.source_image_path,
+        strength: sourceImage ? params.strength ?? null : null,
+        mask_image_path: mask ? job.mask_image_path : null,
+        is_private: params.isPrivate ?? false,
+        file_size: result.blob.size,
+        // Saving the row marks the job succeeded, and fails if it was cancelled meanwhile
+        generation_job_id: job.id,
+      })
+      .select('id')
+      .single();
+
+    if (imageError) {
+      throw imageError;
+    }
+
+    // Missing tags only make the image harder to find, not worth failing over
+    const { error: tagError } = await supabase
+      .from('image_tags')
+      .insert(extractPromptTags(job.prompt).map(tag => ({
+        image_id: image.id,
+        user_id: job.user_id,
+        tag,
+        source: 'auto',
+      })));
+
+    if (tagError) {
+      console.error(`Failed to tag image ${image.id}:`, tagError);
+    }
+  } catch (error) {
+    await removeUpload();
+
+    // A cancelled job is already final, there is nothing to record
+    if (signal.aborted) {
+      console.log(`Job ${job.id} stopped running`);
+      return;
+    }
+
+    console.error(`Job ${job.id} failed:`, error);
+    try {
+      await updateJob(job.id, {
+        status: 'failed',
+        error: errorMessage(error),
+        finished_at: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      // The stale job reaper fails it later
+      console.error(`Error failing job ${job.id}:`, updateError);
+    }
+  } finally {
+    stop();
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { jobId } = await req.json().catch(() => ({ jobId: undefined }));
+
+    if (jobId) {
+      const user = await getRequestUser(req);
+      if (!user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: owner } = await supabase
+        .from('generation_jobs')
+        .select('user_id')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (!owner || owner.user_id !== user.id) {
+        return jsonResponse({ error: 'Job not found' }, 404);
+      }
+
+      const job = await claimJob(jobId);
+      if (!job) {
+        return jsonResponse({ error: 'Job is not queued' }, 409);
+      }
+
+      await runJob(job);
+      return jsonResponse({ processed: [jobId] });
+    }
+
+    // Draining the queue is reserved for the service role
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: queued, error } = await supabase
+      .from('generation_jobs')
+      .select('id')
+      .eq('status', 'queued')
+      .eq('kind', 'generate')
+      .eq('runtime', 'server')
+      .in('provider', Object.keys(serverProviders))
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw error;
+    }
+
+    const processed: string[] = [];
+    for (const { id } of queued ?? []) {
+      const job = await claimJob(id);
+      if (job) {
+        await runJob(job);
+        processed.push(id);
+      }
+    }
+
+    return jsonResponse({ processed });
+  } catch (error) {
+    console.error('Generation worker error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,191 @@
+// Reconciles the images and private-images buckets against the images table.
+//
+// Lists every file under each user's folder and compares it with the
+// storage_path, thumbnail_path, source_image_path and mask_image_path
+// recorded on their images. Files no row points at are reported and, unless
+// called with { dryRun: true }, removed. Files in the wrong bucket are moved:
+// private images, references and masks belong in private-images, the files of
+// public images in images.
+// Meant to run on a schedule with the service role key.
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabase.ts';
+
+const IMAGES_BUCKET = 'images';
+const PRIVATE_IMAGES_BUCKET = 'private-images';
+const PAGE_SIZE = 1000;
+// Uploads happen before their row is inserted, leave recent files alone
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+type StoredFile = {
+  path: string;
+  createdAt: string | null;
+};
+
+const supabase = createAdminClient();
+
+// Storage listing is one folder at a time, folders come back without an id
+const listFolder = async (bucket: string, prefix: string) => {
+  const entries: { name: string; id: string | null; created_at: string | null }[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .storage
+      .from(bucket)
+      .list(prefix, { limit: PAGE_SIZE, offset });
+
+    if (error) {
+      throw error;
+    }
+
+    entries.push(...(data ?? []));
+    if ((data ?? []).length < PAGE_SIZE) {
+      return entries;
+    }
+  }
+};
+
+const listFiles = async (bucket: string, prefix: string): Promise<StoredFile[]> => {
+  const files: StoredFile[] = [];
+
+  for (const entry of await listFolder(bucket, prefix)) {
+    const path = `${prefix}/${entry.name}`;
+    if (entry.id === null) {
+      files.push(...await listFiles(bucket, path));
+    } else {
+      files.push({ path, createdAt: entry.created_at });
+    }
+  }
+
+  return files;
+};
+
+// Each referenced path with the bucket it belongs in
+const referencedPaths = async (userId: string) => {
+  const paths = new Map<string, string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('images')
+      .select('storage_path, thumbnail_path, source_image_path, mask_image_path, is_private')
+      .eq('user_id', userId)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      const bucket = row.is_private ? PRIVATE_IMAGES_BUCKET : IMAGES_BUCKET;
+      if (row.storage_path) paths.set(row.storage_path, bucket);
+      if (row.thumbnail_path) paths.set(row.thumbnail_path, bucket);
+      if (row.source_image_path) paths.set(row.source_image_path, PRIVATE_IMAGES_BUCKET);
+      if (row.mask_image_path) paths.set(row.mask_image_path, PRIVATE_IMAGES_BUCKET);
+    }
+
+    if ((data ?? []).length < PAGE_SIZE) {
+      return paths;
+    }
+  }
+};
+
+const moveFile = async (path: string, from: string, to: string) => {
+  const { data, error } = await supabase.storage.from(from).download(path);
+  if (error) {
+    throw error;
+  }
+
+  const { error: uploadError } = await supabase
+    .storage
+    .from(to)
+    .upload(path, data, { contentType: data.type || undefined, upsert: true });
+
+  if (uploadError) {
+    throw uploadError;
+  }
+
+  const { error: removeError } = await supabase.storage.from(from).remove([path]);
+  if (removeError) {
+    throw removeError;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { dryRun = false } = await req.json().catch(() => ({}));
+
+    const cutoff = Date.now() - GRACE_PERIOD_MS;
+    const isRecent = (file: StoredFile) => Boolean(file.createdAt) && new Date(file.createdAt!).getTime() > cutoff;
+    // Reported as `${bucket}/${path}`
+    const orphans: string[] = [];
+    const misplaced: string[] = [];
+    const referencedByUser = new Map<string, Map<string, string>>();
+    let scanned = 0;
+
+    for (const bucket of [IMAGES_BUCKET, PRIVATE_IMAGES_BUCKET]) {
+      const bucketOrphans: string[] = [];
+
+      for (const entry of await listFolder(bucket, '')) {
+        // Every file belongs in a user folder, anything at the top level is a stray
+        if (entry.id !== null) {
+          scanned += 1;
+          const file = { path: entry.name, createdAt: entry.created_at };
+          if (!isRecent(file)) bucketOrphans.push(file.path);
+          continue;
+        }
+
+        const files = await listFiles(bucket, entry.name);
+        if (!referencedByUser.has(entry.name)) {
+          referencedByUser.set(entry.name, await referencedPaths(entry.name));
+        }
+        const referenced = referencedByUser.get(entry.name)!;
+        scanned += files.length;
+
+        for (const file of files) {
+          const target = referenced.get(file.path);
+          if (!target) {
+            if (!isRecent(file)) bucketOrphans.push(file.path);
+          } else if (target !== bucket) {
+            misplaced.push(`${bucket}/${file.path}`);
+            if (!dryRun) await moveFile(file.path, bucket, target);
+          }
+        }
+      }
+
+      if (!dryRun) {
+        for (let i = 0; i < bucketOrphans.length; i += PAGE_SIZE) {
+          const { error: removeError } = await supabase
+            .storage
+            .from(bucket)
+            .remove(bucketOrphans.slice(i, i + PAGE_SIZE));
+
+          if (removeError) {
+            throw removeError;
+          }
+        }
+      }
+
+      orphans.push(...bucketOrphans.map(path => `${bucket}/${path}`));
+    }
+
+    console.log(`Storage sweep: ${scanned} files scanned, ${orphans.length} orphaned, ${misplaced.length} in the wrong bucket${dryRun ? ' (dry run)' : ''}`);
+    return jsonResponse({
+      scanned,
+      orphans,
+      removed: dryRun ? 0 : orphans.length,
+      misplaced,
+      moved: dryRun ? 0 : misplaced.length,
+    });
+  } catch (error) {
+    console.error('Storage sweeper error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,4 @@
+-- Record which provider and model produced each image
+alter table public.images
+  add column if not exists provider text,
+  add column if not exists model text;
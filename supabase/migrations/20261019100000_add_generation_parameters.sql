@@ -0,0 +1,7 @@
+-- Persist the parameters used for each generation so results can be reproduced
+alter table public.images
+  add column if not exists aspect_ratio text,
+  add column if not exists seed bigint,
+  add column if not exists steps integer,
+  add column if not exists guidance_scale real,
+  add column if not exists negative_prompt text;
@@ -0,0 +1,64 @@
+-- Generation job queue. Jobs for server-side providers are processed by the
+-- generation-worker edge function, clients follow progress through Realtime.
+create type public.generation_job_status as enum ('queued', 'running', 'succeeded', 'failed', 'cancelled');
+
+create table if not exists public.generation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  status public.generation_job_status not null default 'queued',
+  progress integer not null default 0 check (progress between 0 and 100),
+  error text,
+  prompt text not null,
+  provider text not null,
+  model text,
+  params jsonb not null default '{}'::jsonb,
+  image_id uuid references public.images(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists generation_jobs_user_id_created_at_idx
+  on public.generation_jobs (user_id, created_at desc);
+
+create index if not exists generation_jobs_queued_idx
+  on public.generation_jobs (created_at)
+  where status = 'queued';
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger generation_jobs_set_updated_at
+  before update on public.generation_jobs
+  for each row execute function public.set_updated_at();
+
+alter table public.generation_jobs enable row level security;
+
+create policy "Users can view their own jobs"
+  on public.generation_jobs for select
+  using (auth.uid() = user_id);
+
+create policy "Users can queue their own jobs"
+  on public.generation_jobs for insert
+  with check (auth.uid() = user_id and status = 'queued');
+
+-- Clients drive jobs for browser-only providers (e.g. the local provider),
+-- so they may update progress fields but not the job definition.
+create policy "Users can update their own jobs"
+  on public.generation_jobs for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+revoke update on public.generation_jobs from authenticated;
+grant update (status, progress, error, image_id, started_at, finished_at)
+  on public.generation_jobs to authenticated;
+
+alter publication supabase_realtime add table public.generation_jobs;
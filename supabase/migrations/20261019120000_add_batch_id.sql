@@ -0,0 +1,10 @@
+-- Variations generated from one request share a batch id
+alter table public.images
+  add column if not exists batch_id uuid;
+
+alter table public.generation_jobs
+  add column if not exists batch_id uuid;
+
+create index if not exists images_batch_id_idx
+  on public.images (batch_id)
+  where batch_id is not null;
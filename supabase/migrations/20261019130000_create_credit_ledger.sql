@@ -0,0 +1,135 @@
+-- Credits ledger. Credits are reserved when a generation job is queued and
+-- refunded when the job fails or is cancelled; both happen inside the same
+-- transaction as the job change, so the balance can never go negative.
+
+create table if not exists public.credit_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  -- Negative for charges, positive for refunds and grants
+  amount integer not null,
+  balance_after integer not null,
+  kind text not null check (kind in ('grant', 'reservation', 'refund', 'adjustment')),
+  -- Deferred so the reservation can be written before the job row exists
+  job_id uuid references public.generation_jobs(id) on delete set null deferrable initially deferred,
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_transactions_user_id_created_at_idx
+  on public.credit_transactions (user_id, created_at desc);
+
+alter table public.credit_transactions enable row level security;
+
+create policy "Users can view their own credit transactions"
+  on public.credit_transactions for select
+  using (auth.uid() = user_id);
+
+-- Opening balance for existing accounts
+insert into public.credit_transactions (user_id, amount, balance_after, kind, description)
+select id, coalesce(credits, 0), coalesce(credits, 0), 'grant', 'Opening balance'
+from public.profiles;
+
+alter table public.generation_jobs
+  add column if not exists credits_reserved integer not null default 0,
+  add column if not exists credits_refunded boolean not null default false;
+
+-- One credit per started megapixel; keep in sync with src/lib/credits.ts
+create or replace function public.generation_credit_cost(p_width integer, p_height integer)
+returns integer
+language sql
+immutable
+as $$
+  select greatest(1, ceil((coalesce(p_width, 800)::numeric * coalesce(p_height, 800)) / 1048576))::integer;
+$$;
+
+create or replace function public.reserve_generation_credits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cost integer;
+  v_balance integer;
+begin
+  v_cost := public.generation_credit_cost(
+    (new.params->>'width')::integer,
+    (new.params->>'height')::integer
+  );
+
+  select coalesce(credits, 0) into v_balance
+  from public.profiles
+  where id = new.user_id
+  for update;
+
+  if v_balance is null or v_balance < v_cost then
+    raise exception 'insufficient_credits'
+      using detail = format('Generation costs %s credits, balance is %s', v_cost, coalesce(v_balance, 0));
+  end if;
+
+  update public.profiles
+  set credits = v_balance - v_cost
+  where id = new.user_id
+  returning credits into v_balance;
+
+  new.credits_reserved := v_cost;
+  new.credits_refunded := false;
+
+  insert into public.credit_transactions (user_id, amount, balance_after, kind, job_id, description)
+  values (new.user_id, -v_cost, v_balance, 'reservation', new.id, 'Image generation');
+
+  return new;
+end;
+$$;
+
+create trigger generation_jobs_reserve_credits
+  before insert on public.generation_jobs
+  for each row execute function public.reserve_generation_credits();
+
+create or replace function public.settle_generation_credits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance integer;
+begin
+  -- Finished jobs are final, otherwise a refund could be claimed twice
+  if old.status in ('succeeded', 'failed', 'cancelled') and new.status is distinct from old.status then
+    raise exception 'Generation job % has already finished', old.id;
+  end if;
+
+  if new.status in ('failed', 'cancelled') and new.credits_reserved > 0 and not new.credits_refunded then
+    update public.profiles
+    set credits = coalesce(credits, 0) + new.credits_reserved
+    where id = new.user_id
+    returning credits into v_balance;
+
+    insert into public.credit_transactions (user_id, amount, balance_after, kind, job_id, description)
+    values (
+      new.user_id,
+      new.credits_reserved,
+      v_balance,
+      'refund',
+      new.id,
+      case when new.status = 'cancelled' then 'Generation cancelled' else 'Generation failed' end
+    );
+
+    new.credits_refunded := true;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger generation_jobs_settle_credits
+  before update on public.generation_jobs
+  for each row execute function public.settle_generation_credits();
+
+-- Balances only change through the functions above
+revoke update on public.profiles from authenticated;
+grant update (name, avatar_url, bio, website, location, last_login)
+  on public.profiles to authenticated;
+
+alter publication supabase_realtime add table public.profiles;
@@ -0,0 +1,191 @@
+-- Subscription tiers. profiles.subscription_tier names a row here and the
+-- triggers below enforce its limits on every job and image, whichever client
+-- wrote it. Keep the values in sync with src/lib/tiers.ts.
+
+create table if not exists public.subscription_tiers (
+  id text primary key,
+  name text not null,
+  -- Longest side of a generated image, in pixels
+  max_resolution integer not null,
+  max_batch_size integer not null,
+  daily_generations integer not null,
+  storage_quota_bytes bigint not null,
+  -- null means unlimited
+  max_private_images integer
+);
+
+insert into public.subscription_tiers
+  (id, name, max_resolution, max_batch_size, daily_generations, storage_quota_bytes, max_private_images)
+values
+  ('free', 'Free', 1024, 1, 20, 500::bigint * 1024 * 1024, 0),
+  ('pro', 'Pro', 2048, 4, 200, 10::bigint * 1024 * 1024 * 1024, 500),
+  ('team', 'Team', 2048, 4, 1000, 100::bigint * 1024 * 1024 * 1024, null)
+on conflict (id) do update set
+  name = excluded.name,
+  max_resolution = excluded.max_resolution,
+  max_batch_size = excluded.max_batch_size,
+  daily_generations = excluded.daily_generations,
+  storage_quota_bytes = excluded.storage_quota_bytes,
+  max_private_images = excluded.max_private_images;
+
+alter table public.subscription_tiers enable row level security;
+
+create policy "Anyone can view subscription tiers"
+  on public.subscription_tiers for select
+  using (true);
+
+-- "premium" was the only paid tier before tiers had limits
+update public.profiles set subscription_tier = 'pro' where subscription_tier = 'premium';
+update public.profiles set subscription_tier = 'free'
+  where subscription_tier is null
+     or subscription_tier not in (select id from public.subscription_tiers);
+
+alter table public.profiles
+  alter column subscription_tier set default 'free',
+  alter column subscription_tier set not null,
+  add constraint profiles_subscription_tier_fkey
+    foreign key (subscription_tier) references public.subscription_tiers(id);
+
+alter table public.images
+  add column if not exists is_private boolean not null default false,
+  -- Bytes stored for the image file, counted against the storage quota
+  add column if not exists file_size bigint not null default 0;
+
+create or replace function public.tier_limits(p_user_id uuid)
+returns public.subscription_tiers
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.*
+  from public.subscription_tiers t
+  where t.id = coalesce(
+    (select subscription_tier from public.profiles where id = p_user_id),
+    'free'
+  );
+$$;
+
+create or replace function public.enforce_generation_tier_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tier public.subscription_tiers;
+  v_width integer;
+  v_height integer;
+  v_count integer;
+begin
+  v_tier := public.tier_limits(new.user_id);
+  v_width := coalesce((new.params->>'width')::integer, 800);
+  v_height := coalesce((new.params->>'height')::integer, 800);
+
+  if greatest(v_width, v_height) > v_tier.max_resolution then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan generates images up to %spx per side.', v_tier.name, v_tier.max_resolution);
+  end if;
+
+  -- Earlier rows of the same insert are already visible here
+  if new.batch_id is not null then
+    select count(*) into v_count
+    from public.generation_jobs
+    where batch_id = new.batch_id;
+
+    if v_count >= v_tier.max_batch_size then
+      raise exception 'tier_limit_exceeded'
+        using detail = format('The %s plan generates up to %s images at once.', v_tier.name, v_tier.max_batch_size);
+    end if;
+  end if;
+
+  -- Failed and cancelled jobs don't count towards the daily allowance
+  select count(*) into v_count
+  from public.generation_jobs
+  where user_id = new.user_id
+    and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+    and status not in ('failed', 'cancelled');
+
+  if v_count >= v_tier.daily_generations then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan allows %s generations per day.', v_tier.name, v_tier.daily_generations);
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Runs before generation_jobs_reserve_credits (triggers fire in name order),
+-- so a rejected job never reserves credits
+create trigger generation_jobs_enforce_tier_limits
+  before insert on public.generation_jobs
+  for each row execute function public.enforce_generation_tier_limits();
+
+create or replace function public.enforce_image_tier_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tier public.subscription_tiers;
+  v_total bigint;
+begin
+  v_tier := public.tier_limits(new.user_id);
+
+  if new.is_private and (tg_op = 'INSERT' or not old.is_private) then
+    select count(*) into v_total
+    from public.images
+    where user_id = new.user_id
+      and is_private
+      and id <> new.id;
+
+    if v_tier.max_private_images is not null and v_total >= v_tier.max_private_images then
+      raise exception 'tier_limit_exceeded'
+        using detail = case
+          when v_tier.max_private_images = 0 then format('Private images are not available on the %s plan.', v_tier.name)
+          else format('The %s plan allows up to %s private images.', v_tier.name, v_tier.max_private_images)
+        end;
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' or new.file_size > old.file_size then
+    select coalesce(sum(file_size), 0) into v_total
+    from public.images
+    where user_id = new.user_id
+      and id <> new.id;
+
+    if v_total + new.file_size > v_tier.storage_quota_bytes then
+      raise exception 'tier_limit_exceeded'
+        using detail = format('Your %s plan storage is full.', v_tier.name);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger images_enforce_tier_limits
+  before insert or update of is_private, file_size on public.images
+  for each row execute function public.enforce_image_tier_limits();
+
+-- Current usage against the signed-in user's tier
+create or replace function public.get_usage_summary()
+returns table (
+  storage_used bigint,
+  generations_today integer,
+  private_images integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (select coalesce(sum(file_size), 0)::bigint from public.images where user_id = auth.uid()),
+    (select count(*)::integer from public.generation_jobs
+      where user_id = auth.uid()
+        and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+        and status not in ('failed', 'cancelled')),
+    (select count(*)::integer from public.images where user_id = auth.uid() and is_private);
+$$;
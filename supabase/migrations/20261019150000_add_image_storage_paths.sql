@@ -0,0 +1,13 @@
+-- Record where each image's files live in the images bucket so deleting an
+-- image can remove them, and so the storage-sweeper can tell strays apart.
+
+alter table public.images
+  add column if not exists storage_path text,
+  add column if not exists thumbnail_path text;
+
+-- Existing rows only have the public URL
+update public.images
+set storage_path = substring(image_url from '/storage/v1/object/public/images/([^?]+)')
+where storage_path is null;
+
+create index if not exists images_storage_path_idx on public.images (storage_path);
@@ -0,0 +1,42 @@
+-- Soft delete for images. Deleted images stay in the trash for 30 days and
+-- can be restored until they are purged; the storage-sweeper then removes
+-- their files. Keep the retention in sync with src/lib/storage.ts.
+
+alter table public.images
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists images_user_id_deleted_at_idx
+  on public.images (user_id, deleted_at);
+
+drop policy if exists "Users can update their own images" on public.images;
+create policy "Users can update their own images"
+  on public.images for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create or replace function public.purge_expired_trash()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from public.images
+  where deleted_at < now() - interval '30 days';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.purge_expired_trash() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'purge-expired-trash',
+  '0 3 * * *',
+  $$select public.purge_expired_trash()$$
+);
@@ -0,0 +1,16 @@
+-- Full-text search over prompts and a favorite flag for filtering the history.
+
+alter table public.images
+  add column if not exists prompt_search tsvector
+    generated always as (to_tsvector('english', coalesce(prompt, ''))) stored,
+  add column if not exists is_favorite boolean not null default false;
+
+create index if not exists images_prompt_search_idx
+  on public.images using gin (prompt_search);
+
+create index if not exists images_user_id_created_at_idx
+  on public.images (user_id, created_at desc, id desc);
+
+create index if not exists images_user_id_favorite_idx
+  on public.images (user_id)
+  where is_favorite;
@@ -0,0 +1,149 @@
+-- Collections (albums) group a user's images in their own order. The first
+-- image added becomes the cover unless one is picked, and removing the cover
+-- falls back to the next image.
+
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 100),
+  description text,
+  cover_image_id uuid references public.images(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists collections_user_id_updated_at_idx
+  on public.collections (user_id, updated_at desc);
+
+create trigger collections_set_updated_at
+  before update on public.collections
+  for each row execute function public.set_updated_at();
+
+create table if not exists public.collection_images (
+  collection_id uuid not null references public.collections(id) on delete cascade,
+  image_id uuid not null references public.images(id) on delete cascade,
+  position integer not null default 0,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, image_id)
+);
+
+create index if not exists collection_images_image_id_idx
+  on public.collection_images (image_id);
+
+create index if not exists collection_images_position_idx
+  on public.collection_images (collection_id, position);
+
+alter table public.collections enable row level security;
+alter table public.collection_images enable row level security;
+
+create policy "Users can view their own collections"
+  on public.collections for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own collections"
+  on public.collections for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own collections"
+  on public.collections for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      cover_image_id is null
+      or exists (select 1 from public.images i where i.id = cover_image_id and i.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can delete their own collections"
+  on public.collections for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view images in their collections"
+  on public.collection_images for select
+  using (exists (
+    select 1 from public.collections c where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users can add their images to their collections"
+  on public.collection_images for insert
+  with check (
+    exists (select 1 from public.collections c where c.id = collection_id and c.user_id = auth.uid())
+    and exists (select 1 from public.images i where i.id = image_id and i.user_id = auth.uid())
+  );
+
+create policy "Users can reorder images in their collections"
+  on public.collection_images for update
+  using (exists (
+    select 1 from public.collections c where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+create policy "Users can remove images from their collections"
+  on public.collection_images for delete
+  using (exists (
+    select 1 from public.collections c where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+-- New images go to the end of the collection
+create or replace function public.append_collection_image()
+returns trigger
+language plpgsql
+as $$
+begin
+  select coalesce(max(position), -1) + 1 into new.position
+  from public.collection_images
+  where collection_id = new.collection_id;
+
+  return new;
+end;
+$$;
+
+create trigger collection_images_append
+  before insert on public.collection_images
+  for each row execute function public.append_collection_image();
+
+create or replace function public.sync_collection_cover()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.collections
+    set cover_image_id = new.image_id
+    where id = new.collection_id and cover_image_id is null;
+
+    update public.collections set updated_at = now() where id = new.collection_id;
+    return new;
+  end if;
+
+  update public.collections c
+  set cover_image_id = (
+    select ci.image_id
+    from public.collection_images ci
+    where ci.collection_id = old.collection_id
+    order by ci.position
+    limit 1
+  )
+  where c.id = old.collection_id and c.cover_image_id = old.image_id;
+
+  return old;
+end;
+$$;
+
+create trigger collection_images_sync_cover
+  after insert or delete on public.collection_images
+  for each row execute function public.sync_collection_cover();
+
+-- Store a new order for a collection in one call
+create or replace function public.reorder_collection_images(p_collection_id uuid, p_image_ids uuid[])
+returns void
+language sql
+as $$
+  update public.collection_images ci
+  set position = ordered.position - 1
+  from unnest(p_image_ids) with ordinality as ordered(image_id, position)
+  where ci.collection_id = p_collection_id
+    and ci.image_id = ordered.image_id;
+$$;
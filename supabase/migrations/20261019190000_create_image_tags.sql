@@ -0,0 +1,45 @@
+-- Tags on images, added by hand or derived from the prompt when the image is
+-- saved ("auto"). The app normalises tags to lowercase letters, digits,
+-- single spaces and hyphens.
+create table if not exists public.image_tags (
+  image_id uuid not null references public.images(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  tag text not null check (tag = lower(btrim(tag)) and char_length(tag) between 1 and 40),
+  source text not null default 'manual' check (source in ('manual', 'auto')),
+  created_at timestamptz not null default now(),
+  primary key (image_id, tag)
+);
+
+create index if not exists image_tags_user_id_tag_idx
+  on public.image_tags (user_id, tag);
+
+alter table public.image_tags enable row level security;
+
+create policy "Users can view their own tags"
+  on public.image_tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can tag their own images"
+  on public.image_tags for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.images i where i.id = image_id and i.user_id = auth.uid())
+  );
+
+create policy "Users can remove their own tags"
+  on public.image_tags for delete
+  using (auth.uid() = user_id);
+
+-- Tag cloud for the signed-in user, trashed images don't count
+create or replace function public.get_tag_counts()
+returns table (tag text, image_count bigint)
+language sql
+stable
+as $$
+  select t.tag, count(*) as image_count
+  from public.image_tags t
+  join public.images i on i.id = t.image_id
+  where t.user_id = auth.uid() and i.deleted_at is null
+  group by t.tag
+  order by image_count desc, t.tag;
+$$;
@@ -0,0 +1,14 @@
+-- Image pages at /image/:id. parent_image_id records the image another one
+-- was made from (regenerated, remixed or edited) so lineage can be traced,
+-- and public images can be opened by anyone with the link.
+
+alter table public.images
+  add column if not exists parent_image_id uuid references public.images(id) on delete set null;
+
+create index if not exists images_parent_image_id_idx
+  on public.images (parent_image_id)
+  where parent_image_id is not null;
+
+create policy "Anyone can view public images"
+  on public.images for select
+  using (not is_private and deleted_at is null);
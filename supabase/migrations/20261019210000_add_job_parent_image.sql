@@ -0,0 +1,4 @@
+-- Regenerated and remixed images record what they were made from. The job
+-- carries the parent until its image is saved, see images.parent_image_id.
+alter table public.generation_jobs
+  add column if not exists parent_image_id uuid references public.images(id) on delete set null;
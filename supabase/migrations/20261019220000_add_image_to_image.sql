@@ -0,0 +1,10 @@
+-- Image-to-image generation. The reference image is kept in the images bucket
+-- under `${user_id}/sources/` and referenced by path, along with the strength
+-- it was used at: 0 keeps the reference as it is, 1 ignores it.
+
+alter table public.images
+  add column if not exists source_image_path text,
+  add column if not exists strength real check (strength between 0 and 1);
+
+alter table public.generation_jobs
+  add column if not exists source_image_path text;
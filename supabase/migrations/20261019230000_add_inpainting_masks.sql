@@ -0,0 +1,6 @@
+-- Inpainting: the mask painted over the reference image, kept next to it under
+-- `${user_id}/sources/`. Opaque pixels mark the area the provider repaints.
+alter table public.images
+  add column if not exists mask_image_path text;
+alter table public.generation_jobs
+  add column if not exists mask_image_path text;
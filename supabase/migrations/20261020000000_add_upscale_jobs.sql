@@ -0,0 +1,61 @@
+-- Upscaling goes through the job queue like generation, so it is charged by
+-- output size by the same credit triggers and counts towards the daily
+-- allowance. Its output may be larger than the tier's generation resolution,
+-- up to 4096px per side (MAX_UPSCALE_DIMENSION in src/lib/generation.ts).
+alter table public.generation_jobs
+  add column if not exists kind text not null default 'generate'
+    check (kind in ('generate', 'upscale'));
+
+create or replace function public.enforce_generation_tier_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tier public.subscription_tiers;
+  v_width integer;
+  v_height integer;
+  v_count integer;
+begin
+  v_tier := public.tier_limits(new.user_id);
+  v_width := coalesce((new.params->>'width')::integer, 800);
+  v_height := coalesce((new.params->>'height')::integer, 800);
+
+  if new.kind = 'upscale' then
+    if greatest(v_width, v_height) > 4096 then
+      raise exception 'tier_limit_exceeded'
+        using detail = 'Images can be upscaled up to 4096px per side.';
+    end if;
+  elsif greatest(v_width, v_height) > v_tier.max_resolution then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan generates images up to %spx per side.', v_tier.name, v_tier.max_resolution);
+  end if;
+
+  -- Earlier rows of the same insert are already visible here
+  if new.batch_id is not null then
+    select count(*) into v_count
+    from public.generation_jobs
+    where batch_id = new.batch_id;
+
+    if v_count >= v_tier.max_batch_size then
+      raise exception 'tier_limit_exceeded'
+        using detail = format('The %s plan generates up to %s images at once.', v_tier.name, v_tier.max_batch_size);
+    end if;
+  end if;
+
+  -- Failed and cancelled jobs don't count towards the daily allowance
+  select count(*) into v_count
+  from public.generation_jobs
+  where user_id = new.user_id
+    and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+    and status not in ('failed', 'cancelled');
+
+  if v_count >= v_tier.daily_generations then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan allows %s generations per day.', v_tier.name, v_tier.daily_generations);
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Images saved from the editor at /image/:id/edit. edit_stack lists the edits
+-- applied to the parent image in order, so the editor can reopen the original
+-- with them and any of them can be taken back.
+alter table public.images
+  add column if not exists edit_stack jsonb
+  check (edit_stack is null or jsonb_typeof(edit_stack) = 'array');
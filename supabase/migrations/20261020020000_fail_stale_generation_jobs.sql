@@ -0,0 +1,38 @@
+-- Fail jobs nobody is working on anymore: a worker that crashed mid-job, a
+-- browser tab closed while rendering, or a queued job that was never picked
+-- up. Failing them releases their credits through settle_generation_credits.
+-- Keep the timeout in sync with JOB_TIMEOUT_MS in src/contexts/ImageContext.tsx.
+
+create index if not exists generation_jobs_active_idx
+  on public.generation_jobs (updated_at)
+  where status in ('queued', 'running');
+
+create or replace function public.fail_stale_generation_jobs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  -- Running jobs report progress, which bumps updated_at
+  update public.generation_jobs
+  set status = 'failed',
+      error = 'Timed out before completion',
+      finished_at = now()
+  where status in ('queued', 'running')
+    and updated_at < now() - interval '10 minutes';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.fail_stale_generation_jobs() from public, anon, authenticated;
+
+select cron.schedule(
+  'fail-stale-generation-jobs',
+  '*/5 * * * *',
+  $$select public.fail_stale_generation_jobs()$$
+);
@@ -0,0 +1,196 @@
+-- Tighten credit accounting so credits can only be refunded for work that was
+-- not delivered, and images saved as 'generated' must point at a paid job.
+--
+-- * Clients no longer write job status. Starting, failing and cancelling go
+--   through the functions below, which decide what a user may do with their
+--   own jobs; the worker and fail_stale_generation_jobs() cover the rest.
+-- * Generated images point at the job that paid for them. Saving the image
+--   completes the job in the same transaction, so a job can't both deliver an
+--   image and be refunded, and the image's size must be covered by the credits
+--   the job reserved.
+-- * origin is chosen by the client. 'imported' and 'edited' rows are files the
+--   user uploads, so they aren't tied to a job or charged credits; only the
+--   storage quota applies to them.
+-- * New accounts get a 'grant' ledger row for their starting credits.
+
+-- Where the job is rendered, from the provider's capabilities. The worker
+-- only picks up server jobs; browser jobs are driven by the user's tab.
+alter table public.generation_jobs
+  add column if not exists runtime text not null default 'server'
+    check (runtime in ('server', 'client'));
+
+revoke update on public.generation_jobs from authenticated;
+grant update (progress) on public.generation_jobs to authenticated;
+
+create or replace function public.start_generation_job(p_job_id uuid)
+returns setof public.generation_jobs
+language sql
+security definer
+set search_path = public
+as $$
+  update public.generation_jobs
+  set status = 'running',
+      started_at = now()
+  where id = p_job_id
+    and user_id = auth.uid()
+    and runtime = 'client'
+    and status = 'queued'
+  returning *;
+$$;
+
+-- Queued jobs never started, and browser jobs are run by the user themselves;
+-- a running server job can only be failed by the worker
+create or replace function public.fail_generation_job(p_job_id uuid, p_error text)
+returns setof public.generation_jobs
+language sql
+security definer
+set search_path = public
+as $$
+  update public.generation_jobs
+  set status = 'failed',
+      error = left(p_error, 500),
+      finished_at = now()
+  where id = p_job_id
+    and user_id = auth.uid()
+    and (status = 'queued' or (status = 'running' and runtime = 'client'))
+  returning *;
+$$;
+
+create or replace function public.cancel_generation_job(p_job_id uuid)
+returns setof public.generation_jobs
+language sql
+security definer
+set search_path = public
+as $$
+  update public.generation_jobs
+  set status = 'cancelled',
+      finished_at = now()
+  where id = p_job_id
+    and user_id = auth.uid()
+    and status in ('queued', 'running')
+  returning *;
+$$;
+
+revoke execute on function public.start_generation_job(uuid) from public, anon;
+revoke execute on function public.fail_generation_job(uuid, text) from public, anon;
+revoke execute on function public.cancel_generation_job(uuid) from public, anon;
+
+-- 'generated' images come from a job, 'edited' ones from one of the user's
+-- own images, 'imported' ones from an export file
+alter table public.images
+  add column if not exists generation_job_id uuid references public.generation_jobs(id) on delete set null,
+  add column if not exists origin text not null default 'generated'
+    check (origin in ('generated', 'imported', 'edited'));
+
+create index if not exists images_generation_job_id_idx
+  on public.images (generation_job_id);
+
+create or replace function public.check_image_origin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.generation_jobs;
+begin
+  if new.origin = 'generated' then
+    select * into v_job
+    from public.generation_jobs
+    where id = new.generation_job_id
+    for update;
+
+    if not found or v_job.user_id <> new.user_id or v_job.status <> 'running' or v_job.image_id is not null then
+      raise exception 'Generated images must belong to a running generation job';
+    end if;
+
+    -- The worker saves the results of server jobs with the service role
+    if auth.uid() is not null and v_job.runtime <> 'client' then
+      raise exception 'Generation job % is run by the generation worker', v_job.id;
+    end if;
+
+    if public.generation_credit_cost(new.width, new.height) > v_job.credits_reserved then
+      raise exception 'insufficient_credits'
+        using detail = format('A %sx%s image costs more than the %s credits reserved', new.width, new.height, v_job.credits_reserved);
+    end if;
+  else
+    new.generation_job_id := null;
+
+    if new.origin = 'edited' and not exists (
+      select 1 from public.images
+      where id = new.parent_image_id and user_id = new.user_id
+    ) then
+      raise exception 'Edited images must be based on one of your own images';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger images_check_origin
+  before insert on public.images
+  for each row execute function public.check_image_origin();
+
+create or replace function public.complete_generation_job()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.generation_jobs
+  set status = 'succeeded',
+      progress = 100,
+      image_id = new.id,
+      finished_at = now()
+  where id = new.generation_job_id;
+
+  return new;
+end;
+$$;
+
+create trigger images_complete_generation_job
+  after insert on public.images
+  for each row
+  when (new.generation_job_id is not null)
+  execute function public.complete_generation_job();
+
+create or replace function public.grant_signup_credits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.credits, 0) > 0 then
+    insert into public.credit_transactions (user_id, amount, balance_after, kind, description)
+    values (new.id, new.credits, new.credits, 'grant', 'Signup credits');
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger profiles_grant_signup_credits
+  after insert on public.profiles
+  for each row execute function public.grant_signup_credits();
+
+-- Accounts created since the ledger was added: their starting credits are
+-- whatever the balance doesn't explain
+insert into public.credit_transactions (user_id, amount, balance_after, kind, description, created_at)
+select
+  p.id,
+  coalesce(p.credits, 0) - coalesce(sum(t.amount), 0),
+  coalesce(p.credits, 0) - coalesce(sum(t.amount), 0),
+  'grant',
+  'Signup credits',
+  coalesce(p.created_at, min(t.created_at), now())
+from public.profiles p
+left join public.credit_transactions t on t.user_id = p.id
+where not exists (
+  select 1 from public.credit_transactions g
+  where g.user_id = p.id and g.kind = 'grant'
+)
+group by p.id, p.credits, p.created_at
+having coalesce(p.credits, 0) - coalesce(sum(t.amount), 0) > 0;
@@ -0,0 +1,111 @@
+-- Storage use is measured from the objects in storage instead of the
+-- file_size clients report. images.file_size becomes the size of the row's
+-- file and thumbnail as stored, and the quota counts everything in the user's
+-- folder of the images bucket, including references, masks and files no row
+-- points at yet.
+
+create or replace function public.storage_object_size(p_bucket text, p_path text)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select (metadata->>'size')::bigint
+    from storage.objects
+    where bucket_id = p_bucket and name = p_path
+  ), 0);
+$$;
+
+create or replace function public.storage_used_bytes(p_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum((metadata->>'size')::bigint), 0)::bigint
+  from storage.objects
+  where bucket_id = 'images'
+    and (storage.foldername(name))[1] = p_user_id::text;
+$$;
+
+revoke execute on function public.storage_object_size(text, text) from public, anon, authenticated;
+revoke execute on function public.storage_used_bytes(uuid) from public, anon, authenticated;
+
+create or replace function public.enforce_image_tier_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tier public.subscription_tiers;
+  v_total bigint;
+begin
+  v_tier := public.tier_limits(new.user_id);
+
+  if new.is_private and (tg_op = 'INSERT' or not old.is_private) then
+    select count(*) into v_total
+    from public.images
+    where user_id = new.user_id
+      and is_private
+      and id <> new.id;
+
+    if v_tier.max_private_images is not null and v_total >= v_tier.max_private_images then
+      raise exception 'tier_limit_exceeded'
+        using detail = case
+          when v_tier.max_private_images = 0 then format('Private images are not available on the %s plan.', v_tier.name)
+          else format('The %s plan allows up to %s private images.', v_tier.name, v_tier.max_private_images)
+        end;
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.file_size := public.storage_object_size('images', new.storage_path)
+      + public.storage_object_size('images', new.thumbnail_path);
+
+    -- The new files are already uploaded, so they are part of the total
+    if public.storage_used_bytes(new.user_id) > v_tier.storage_quota_bytes then
+      raise exception 'tier_limit_exceeded'
+        using detail = format('Your %s plan storage is full.', v_tier.name);
+    end if;
+  elsif new.file_size is distinct from old.file_size then
+    new.file_size := old.file_size;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Current usage against the signed-in user's tier
+create or replace function public.get_usage_summary()
+returns table (
+  storage_used bigint,
+  generations_today integer,
+  private_images integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    public.storage_used_bytes(auth.uid()),
+    (select count(*)::integer from public.generation_jobs
+      where user_id = auth.uid()
+        and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+        and status not in ('failed', 'cancelled')),
+    (select count(*)::integer from public.images where user_id = auth.uid() and is_private);
+$$;
+
+-- Correct the sizes recorded so far, which the trigger would otherwise keep
+alter table public.images disable trigger images_enforce_tier_limits;
+
+update public.images
+set file_size = public.storage_object_size('images', storage_path)
+  + public.storage_object_size('images', thumbnail_path)
+where storage_path is not null;
+
+alter table public.images enable trigger images_enforce_tier_limits;
@@ -0,0 +1,64 @@
+-- Files of private images, and every reference image and mask, live in a
+-- bucket that isn't public. Owners read them through signed URLs; nobody can
+-- read another user's folder. Files saved before this stay in the images
+-- bucket until the storage-sweeper moves them.
+
+insert into storage.buckets (id, name, public)
+values ('private-images', 'private-images', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users can read their own private files" on storage.objects;
+create policy "Users can read their own private files"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'private-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can upload their own private files" on storage.objects;
+create policy "Users can upload their own private files"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'private-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can replace their own private files" on storage.objects;
+create policy "Users can replace their own private files"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'private-images' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'private-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users can delete their own private files" on storage.objects;
+create policy "Users can delete their own private files"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'private-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Storage use counts both buckets
+create or replace function public.storage_used_bytes(p_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum((metadata->>'size')::bigint), 0)::bigint
+  from storage.objects
+  where bucket_id in ('images', 'private-images')
+    and (storage.foldername(name))[1] = p_user_id::text;
+$$;
+
+-- A file is in one of the buckets, depending on where it is in its move
+create or replace function public.storage_object_size(p_bucket text, p_path text)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select (metadata->>'size')::bigint
+    from storage.objects
+    where bucket_id in ('images', 'private-images') and name = p_path
+    order by (bucket_id = p_bucket) desc
+    limit 1
+  ), 0);
+$$;
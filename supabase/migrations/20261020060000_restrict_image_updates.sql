@@ -0,0 +1,7 @@
+-- Users may only change how their images are filed and shown. Everything
+-- else (owner, files, sizes, generation settings) is written once when the
+-- image is saved, so it can't be used to dodge the storage quota or to point
+-- a row at someone else's files.
+revoke update on public.images from authenticated;
+grant update (deleted_at, is_favorite, is_private)
+  on public.images to authenticated;
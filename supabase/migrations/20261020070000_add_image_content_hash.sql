@@ -0,0 +1,8 @@
+-- SHA-256 of an imported image's file, so importing the same file twice is
+-- caught even when the manifest has no created_at to compare
+alter table public.images
+  add column if not exists content_hash text;
+
+create index if not exists images_user_id_content_hash_idx
+  on public.images (user_id, content_hash)
+  where content_hash is not null;
@@ -0,0 +1,50 @@
+-- Other people's public images were readable through a table-wide policy,
+-- which let anyone list every column of every public image, seeds, negative
+-- prompts and reference paths included. Image pages now look up a single
+-- image by id through get_shared_image(), which only returns what the page
+-- shows to people other than the owner.
+
+drop policy if exists "Anyone can view public images" on public.images;
+
+create or replace function public.get_shared_image(p_image_id uuid)
+returns table (
+  id uuid,
+  user_id uuid,
+  prompt text,
+  image_url text,
+  thumbnail_path text,
+  width integer,
+  height integer,
+  aspect_ratio text,
+  provider text,
+  model text,
+  parent_image_id uuid,
+  is_private boolean,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    i.id,
+    i.user_id,
+    i.prompt,
+    i.image_url,
+    i.thumbnail_path,
+    i.width::integer,
+    i.height::integer,
+    i.aspect_ratio,
+    i.provider,
+    i.model,
+    i.parent_image_id,
+    i.is_private,
+    i.created_at::timestamptz
+  from public.images i
+  where i.id = p_image_id
+    and not i.is_private
+    and i.deleted_at is null;
+$$;
+
+grant execute on function public.get_shared_image(uuid) to anon, authenticated;
@@ -0,0 +1,55 @@
+-- images.image_url is written when the image is saved and still points at the
+-- private bucket after a private image is made public and its files move.
+-- get_shared_image now builds the URL from storage_path for rows that have
+-- one, and returns storage_path so clients can do the same.
+
+drop function if exists public.get_shared_image(uuid);
+
+create function public.get_shared_image(p_image_id uuid)
+returns table (
+  id uuid,
+  user_id uuid,
+  prompt text,
+  image_url text,
+  storage_path text,
+  thumbnail_path text,
+  width integer,
+  height integer,
+  aspect_ratio text,
+  provider text,
+  model text,
+  parent_image_id uuid,
+  is_private boolean,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    i.id,
+    i.user_id,
+    i.prompt,
+    case
+      when i.storage_path is not null then
+        regexp_replace(i.image_url, '/storage/v1/object/public/.*$', '/storage/v1/object/public/images/' || i.storage_path)
+      else i.image_url
+    end,
+    i.storage_path,
+    i.thumbnail_path,
+    i.width::integer,
+    i.height::integer,
+    i.aspect_ratio,
+    i.provider,
+    i.model,
+    i.parent_image_id,
+    i.is_private,
+    i.created_at::timestamptz
+  from public.images i
+  where i.id = p_image_id
+    and not i.is_private
+    and i.deleted_at is null;
+$$;
+
+grant execute on function public.get_shared_image(uuid) to anon, authenticated;
@@ -0,0 +1,84 @@
+-- The generation limits trusted columns the client sets on insert. A job
+-- created with an old created_at didn't count towards the daily allowance,
+-- and the batch limit only applied to rows sharing a batch_id. Job timestamps
+-- are now set by the database, and the batch limit counts all of the user's
+-- queued and running jobs.
+
+create or replace function public.enforce_generation_tier_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tier public.subscription_tiers;
+  v_width integer;
+  v_height integer;
+  v_count integer;
+  v_parent_width integer;
+  v_parent_height integer;
+  v_scale integer;
+begin
+  -- The daily allowance and the stale job reaper go by these
+  new.created_at := now();
+  new.updated_at := now();
+
+  v_tier := public.tier_limits(new.user_id);
+  v_width := coalesce((new.params->>'width')::integer, 800);
+  v_height := coalesce((new.params->>'height')::integer, 800);
+
+  if new.kind = 'upscale' and new.runtime = 'client' and new.params->>'scale' in ('2', '4') then
+    select width, height into v_parent_width, v_parent_height
+    from public.images
+    where id = new.parent_image_id
+      and user_id = new.user_id
+      and deleted_at is null;
+
+    if v_parent_width is not null and v_parent_height is not null then
+      v_scale := (new.params->>'scale')::integer;
+    end if;
+  end if;
+
+  if v_scale is not null then
+    if v_width > v_parent_width * v_scale or v_height > v_parent_height * v_scale then
+      raise exception 'tier_limit_exceeded'
+        using detail = format('A %sx upscale of this image is at most %sx%s.', v_scale, v_parent_width * v_scale, v_parent_height * v_scale);
+    end if;
+
+    if greatest(v_width, v_height) > 4096 then
+      raise exception 'tier_limit_exceeded'
+        using detail = 'Images can be upscaled up to 4096px per side.';
+    end if;
+  elsif greatest(v_width, v_height) > v_tier.max_resolution then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan generates images up to %spx per side.', v_tier.name, v_tier.max_resolution);
+  end if;
+
+  -- Every job the user has in flight counts, whatever batch_id it was given.
+  -- Earlier rows of the same insert are already visible here, and stale jobs
+  -- are failed by fail_stale_generation_jobs().
+  select count(*) into v_count
+  from public.generation_jobs
+  where user_id = new.user_id
+    and status in ('queued', 'running');
+
+  if v_count >= v_tier.max_batch_size then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan generates up to %s images at once.', v_tier.name, v_tier.max_batch_size);
+  end if;
+
+  -- Failed and cancelled jobs don't count towards the daily allowance
+  select count(*) into v_count
+  from public.generation_jobs
+  where user_id = new.user_id
+    and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc'
+    and status not in ('failed', 'cancelled');
+
+  if v_count >= v_tier.daily_generations then
+    raise exception 'tier_limit_exceeded'
+      using detail = format('The %s plan allows %s generations per day.', v_tier.name, v_tier.daily_generations);
+  end if;
+
+  return new;
+end;
+$$;
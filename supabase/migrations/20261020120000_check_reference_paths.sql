@@ -0,0 +1,20 @@
+-- Reference images and masks are given by path, and the generation worker
+-- reads them with the service role. Paths outside the owner's folder would
+-- let a job read another user's private files, so they are rejected. Not
+-- validated against existing rows, which were all written by the app.
+
+alter table public.generation_jobs
+  add constraint generation_jobs_source_image_path_owned
+    check (source_image_path is null or (source_image_path like user_id::text || '/%' and source_image_path not like '%..%'))
+    not valid,
+  add constraint generation_jobs_mask_image_path_owned
+    check (mask_image_path is null or (mask_image_path like user_id::text || '/%' and mask_image_path not like '%..%'))
+    not valid;
+
+alter table public.images
+  add constraint images_source_image_path_owned
+    check (source_image_path is null or (source_image_path like user_id::text || '/%' and source_image_path not like '%..%'))
+    not valid,
+  add constraint images_mask_image_path_owned
+    check (mask_image_path is null or (mask_image_path like user_id::text || '/%' and mask_image_path not like '%..%'))
+    not valid;